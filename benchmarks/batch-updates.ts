@@ -0,0 +1,109 @@
+import { run, bench, summary, boxplot } from "mitata";
+import { BunSQLiteDatabase, drizzle } from "drizzle-orm/bun-sqlite";
+import { Database } from "bun:sqlite";
+import { sqliteTable, text, real } from "drizzle-orm/sqlite-core";
+import { UnitOfWork } from "../src/uow";
+import { BunSQLiteAdapter } from "../src/bun-sqlite";
+import type { CreateUowReturnType } from "../src/bun-sqlite";
+
+// Define schema for accounts
+const accounts = sqliteTable("accounts", {
+  address: text("address").primaryKey(),
+  balance: real("balance").notNull().default(0),
+});
+
+type Schema = { accounts: typeof accounts };
+
+function generateAddress(index: number): string {
+  return `0x${index.toString(16).padStart(40, "0")}`;
+}
+
+// Setup database with `count` existing accounts
+function setupDatabase(count: number) {
+  const sqlite = new Database(":memory:");
+  const db = drizzle(sqlite, { schema: { accounts } });
+
+  db.run(`
+    CREATE TABLE accounts (
+      address TEXT PRIMARY KEY,
+      balance REAL NOT NULL DEFAULT 0
+    )
+  `);
+
+  const insert = sqlite.prepare(
+    "INSERT INTO accounts (address, balance) VALUES (?, 0)",
+  );
+  sqlite.transaction(() => {
+    for (let i = 0; i < count; i++) {
+      insert.run(generateAddress(i));
+    }
+  })();
+
+  return { sqlite, db };
+}
+
+// Adapter that issues one UPDATE per modified row, as before batching
+class PerRowAdapter extends BunSQLiteAdapter {
+  protected override getUpdateBatchSize() {
+    return 1;
+  }
+}
+
+// Load every account and change its balance, then time only the flush
+async function flushUpdates(
+  db: BunSQLiteDatabase<Schema>,
+  adapter: BunSQLiteAdapter,
+  count: number,
+) {
+  const uow = new UnitOfWork(db, adapter) as CreateUowReturnType<
+    BunSQLiteDatabase<Schema>
+  >;
+  const all = await uow.accounts.findMany();
+
+  for (const account of all) {
+    account.balance += 1;
+  }
+
+  if (all.length !== count) {
+    throw new Error(`Expected ${count} accounts, got ${all.length}`);
+  }
+
+  return () => uow.save();
+}
+
+// Run benchmarks
+console.log("🚀 Batched UPDATE Benchmark\n");
+
+boxplot(() => {
+  summary(() => {
+    bench("Batched UPDATE - $rows rows", async function* (state: any) {
+      const count = state.get("rows");
+
+      yield {
+        async [0]() {
+          const { db } = setupDatabase(count);
+          return flushUpdates(db, new BunSQLiteAdapter(db), count);
+        },
+        async bench(save: () => Promise<void>) {
+          await save();
+        },
+      };
+    }).args({ rows: [1000, 5000, 10000] });
+
+    bench("Per-row UPDATE - $rows rows", async function* (state: any) {
+      const count = state.get("rows");
+
+      yield {
+        async [0]() {
+          const { db } = setupDatabase(count);
+          return flushUpdates(db, new PerRowAdapter(db), count);
+        },
+        async bench(save: () => Promise<void>) {
+          await save();
+        },
+      };
+    }).args({ rows: [1000, 5000, 10000] });
+  });
+});
+
+await run();
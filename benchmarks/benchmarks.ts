@@ -10,9 +10,9 @@ const __dirname = dirname(fileURLToPath(import.meta.url));
 const benchmarks = {
   "erc20-indexing": "ERC20 token indexing simulation (SQLite only)",
   "erc20-indexing-multi-db": "ERC20 token indexing simulation (SQLite + PostgreSQL)",
+  "batch-updates": "Batched UPDATE flush vs one UPDATE per row (SQLite only)",
   // Add more benchmarks here as they are created
   // "query-performance": "Query performance comparison",
-  // "batch-operations": "Batch insert/update operations",
 };
 
 interface BenchmarkResult {
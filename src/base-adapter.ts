@@ -1,22 +1,91 @@
 import {
+  and,
   createTableRelationsHelpers,
+  eq,
   extractTablesRelationalConfig,
+  getOperators,
+  getTableColumns,
+  getTableName,
   getTableUniqueName,
+  inArray,
+  is,
+  or,
+  sql,
+  SQL,
   type Column,
   type Table,
+  type TableRelationalConfig,
   type TablesRelationalConfig,
 } from "drizzle-orm";
-import type { DatabaseAdapter, ChangeSet } from "./types";
+import type {
+  BulkOperation,
+  DatabaseAdapter,
+  ChangeSet,
+  ConflictAction,
+  ConstraintViolation,
+  FindManyQuery,
+  ForeignKeyReference,
+  LockOptions,
+  SessionOptions,
+  SessionTransaction,
+} from "./types";
 import { EntityState as EntityStateEnum } from "./types";
+import {
+  ConcurrencyConflictError,
+  ForeignKeyError,
+  NotNullError,
+  SaveError,
+  UniqueConstraintError,
+  type SaveErrorDetails,
+} from "./errors";
 
 /**
- * Base database adapter with common functionality
+ * Base database adapter with common functionality.
+ *
+ * `executeChangeSets` is the only method the unit of work calls to save, and
+ * adapters are not expected to reimplement it. A flush runs inside
+ * `runInTransaction` and emits statements through these hooks, in order:
+ *
+ * - `executeBulkOperation` per queued `updateWhere()` / `deleteWhere()`
+ * - `insertChangeSets` per table, parents before children, then
+ *   `upsertChangeSets` per conflict action and set of columns
+ * - `updateChangeSets` per table and set of changed columns
+ * - `deleteChangeSets` per table, children before parents
+ *
+ * The update and delete hooks write entities with a version one statement
+ * each through `executeVersionedChangeSet`. A save where one of these changed
+ * no row throws a `ConcurrencyConflictError`. Any other error is thrown as a
+ * `SaveError` naming the table being written, its subclass picked by
+ * `getConstraintViolation`.
+ *
+ * Each hook hands its statements to `executeQuery`, which awaits them and
+ * passes their result to a callback, e.g. to record generated keys. Adapters
+ * change how statements are sent by overriding `executeQuery` or
+ * `runInTransaction`, and what they contain by overriding the hooks or the
+ * builders below them (`buildBatchUpdate`, `buildPrimaryKeyInCondition`,
+ * `withConflictAction`, `getForeignKeys`,
+ * `getCompositePrimaryKeyColumns`).
+ *
+ * `beginSession` opens a transaction that stays open across calls: reads and
+ * flushes run in it until `commitSession` or `rollbackSession`, and rows can
+ * be locked in it with `findByPrimaryKeys`. Adapters open it in
+ * `openSession` and lock rows in `lockRows`. Savepoints set in it with
+ * `createSavepoint` are written by `executeSavepoint` and rolled back to by
+ * `executeRollbackToSavepoint`.
  */
 export abstract class BaseDatabaseAdapter implements DatabaseAdapter {
   protected db: any;
   protected schema: Record<string, Table>;
-  private tablesRelationalConfig: TablesRelationalConfig;
-  private tableNamesMap: Record<string, string>;
+  protected tablesRelationalConfig: TablesRelationalConfig;
+  protected tableNamesMap: Record<string, string>;
+  private primaryKeyColumnsCache = new Map<Table, [string, Column][]>();
+  private session: SessionTransaction | null = null;
+  /** Names of the savepoints set in the session transaction, in order */
+  private savepoints: string[] = [];
+  private savepointCount = 0;
+  /** The table and changesets the running hook writes */
+  protected currentWrite: { table: Table; changeSets: ChangeSet[] } | null =
+    null;
 
   constructor(db: any) {
     this.db = db;
@@ -41,55 +110,1097 @@ export abstract class BaseDatabaseAdapter implements DatabaseAdapter {
   abstract rollbackTransaction(tx: any): Promise<void>;
 
   /**
-   * Execute all changes in a transaction
+   * Load rows of a table by primary key, together with the relations in
+   * `withConfig`. With `lock`, the rows are locked first in the session
+   * transaction, and rows skipped by `skipLocked` are left out.
+   */
+  async findByPrimaryKeys(
+    table: Table,
+    primaryKeys: any[],
+    withConfig?: Record<string, any>,
+    lock?: LockOptions,
+  ): Promise<any[]> {
+    if (lock) {
+      if (!this.session) {
+        throw new Error("Rows can only be locked in a session transaction");
+      }
+      primaryKeys = await this.lockRows(
+        this.session.tx,
+        table,
+        primaryKeys,
+        lock,
+      );
+      if (primaryKeys.length === 0) return [];
+    }
+
+    return this.findMany(table, {
+      where: this.buildPrimaryKeyInCondition(table, primaryKeys),
+      with: withConfig,
+    });
+  }
+
+  /**
+   * Run a relational `findMany` query on a table
+   */
+  async findMany(table: Table, config: FindManyQuery): Promise<any[]> {
+    const query = (this.session?.tx ?? this.db).query[this.getTableKey(table)];
+    return (await query?.findMany(config)) ?? [];
+  }
+
+  /**
+   * Execute all changes in a transaction. Inside a session, changes are
+   * applied to the session transaction and committed with it.
    */
-  async executeChangeSets(changeSets: ChangeSet[]): Promise<void> {
-    if (changeSets.length === 0) {
+  async executeChangeSets(
+    changeSets: ChangeSet[],
+    bulkOperations: BulkOperation[] = [],
+  ): Promise<void> {
+    if (changeSets.length === 0 && bulkOperations.length === 0) {
       return;
     }
 
+    try {
+      if (this.session) {
+        await this.applyChangeSets(
+          this.session.tx,
+          changeSets,
+          bulkOperations,
+        );
+        return;
+      }
+
+      await this.runInTransaction((tx) =>
+        this.applyChangeSets(tx, changeSets, bulkOperations),
+      );
+    } catch (error) {
+      throw this.toSaveError(error);
+    }
+  }
+
+  /**
+   * Wrap an error raised while saving in the `SaveError` subclass for the
+   * constraint it violated. `table` and `changeSets` are what the failing
+   * statement wrote; the changeset is only named when there is one.
+   */
+  toSaveError(
+    error: unknown,
+    table?: Table,
+    changeSets: ChangeSet[] = [],
+  ): SaveError {
+    if (error instanceof SaveError) {
+      return error;
+    }
+
+    const message = `Failed to save changes: ${
+      error instanceof Error ? error.message : String(error)
+    }`;
+    const changeSet = changeSets.length === 1 ? changeSets[0] : undefined;
+    const details: SaveErrorDetails = {
+      cause: error,
+      tableName: table && this.getTableKey(table),
+      changeSet,
+      primaryKey:
+        table && changeSet
+          ? this.extractPrimaryKeyValue(table, changeSet.entity)
+          : undefined,
+    };
+
+    switch (this.getConstraintViolation(error)) {
+      case "unique":
+        return new UniqueConstraintError(message, details);
+      case "foreignKey":
+        return new ForeignKeyError(message, details);
+      case "notNull":
+        return new NotNullError(message, details);
+      default:
+        return new SaveError(message, details);
+    }
+  }
+
+  /**
+   * The constraint a driver error reports as violated, if any
+   */
+  protected getConstraintViolation(
+    _error: unknown,
+  ): ConstraintViolation | null {
+    return null;
+  }
+
+  /**
+   * Whether a failed flush may succeed if run again in a new transaction,
+   * e.g. after a serialization failure or a deadlock. `save({ retry })` only
+   * retries these errors.
+   */
+  isRetryableError(_error: unknown): boolean {
+    return false;
+  }
+
+  /**
+   * An error followed by the errors of its `cause` chain. Drizzle wraps
+   * driver errors in a `DrizzleQueryError` with the driver's error as cause.
+   */
+  protected getErrorChain(error: unknown): any[] {
+    const chain: any[] = [];
+    let current: any = error;
+    while (current && !chain.includes(current)) {
+      chain.push(current);
+      current = current.cause;
+    }
+
+    return chain;
+  }
+
+  /**
+   * Whether a session transaction is open
+   */
+  hasSession(): boolean {
+    return this.session !== null;
+  }
+
+  /**
+   * Open a transaction that reads and flushes run in until it is committed
+   * or rolled back
+   */
+  async beginSession(options: SessionOptions = {}): Promise<void> {
+    if (this.session) {
+      throw new Error("A session transaction is already open");
+    }
+
+    this.session = await this.openSession(options);
+    this.savepoints = [];
+  }
+
+  /**
+   * Commit the session transaction, if one is open
+   */
+  async commitSession(): Promise<void> {
+    const session = this.session;
+    this.session = null;
+    this.savepoints = [];
+    await session?.end(true);
+  }
+
+  /**
+   * Roll back the session transaction, if one is open
+   */
+  async rollbackSession(): Promise<void> {
+    const session = this.session;
+    this.session = null;
+    this.savepoints = [];
+    await session?.end(false);
+  }
+
+  /**
+   * Set a savepoint in the session transaction and return its name
+   */
+  async createSavepoint(): Promise<string> {
+    if (!this.session) {
+      throw new Error("Savepoints can only be set in a session transaction");
+    }
+
+    const name = `drizzow_${++this.savepointCount}`;
+    await this.executeSavepoint(this.session.tx, name);
+    this.savepoints.push(name);
+    return name;
+  }
+
+  /**
+   * Whether a savepoint is still set in the session transaction
+   */
+  hasSavepoint(name: string): boolean {
+    return this.savepoints.includes(name);
+  }
+
+  /**
+   * Undo what the session transaction wrote since a savepoint. The savepoint
+   * stays set, and the savepoints set after it are removed.
+   */
+  async rollbackToSavepoint(name: string): Promise<void> {
+    const index = this.savepoints.indexOf(name);
+    if (!this.session || index === -1) {
+      throw new Error(`Savepoint ${name} is not set`);
+    }
+
+    await this.executeRollbackToSavepoint(this.session.tx, name);
+    this.savepoints = this.savepoints.slice(0, index + 1);
+  }
+
+  /**
+   * Set a savepoint with `SAVEPOINT`
+   */
+  protected async executeSavepoint(tx: any, name: string): Promise<void> {
+    await this.executeStatement(tx, sql`savepoint ${sql.identifier(name)}`);
+  }
+
+  /**
+   * Roll back to a savepoint with `ROLLBACK TO SAVEPOINT`
+   */
+  protected async executeRollbackToSavepoint(
+    tx: any,
+    name: string,
+  ): Promise<void> {
+    await this.executeStatement(
+      tx,
+      sql`rollback to savepoint ${sql.identifier(name)}`,
+    );
+  }
+
+  /**
+   * Open a session transaction with `beginTransaction`, ended with
+   * `commitTransaction` or `rollbackTransaction`. The isolation level is
+   * not applied.
+   */
+  protected async openSession(
+    _options: SessionOptions,
+  ): Promise<SessionTransaction> {
+    const tx = await this.beginTransaction();
+
+    return {
+      tx,
+      end: (commit) =>
+        commit ? this.commitTransaction(tx) : this.rollbackTransaction(tx),
+    };
+  }
+
+  /**
+   * Open a session transaction on a driver whose transactions are scoped to
+   * a callback, such as Drizzle's `db.transaction()`. The callback is kept
+   * pending until the session ends, and rolls back by throwing.
+   */
+  protected async openCallbackSession(
+    transaction: (work: (tx: any) => Promise<void>) => Promise<unknown>,
+  ): Promise<SessionTransaction> {
+    const rollback = new Error("Session transaction rolled back");
+    let end!: (commit: boolean) => void;
+    const ended = new Promise<boolean>((resolve) => (end = resolve));
+
+    let done!: Promise<unknown>;
+    const tx = await new Promise<any>((resolve, reject) => {
+      done = transaction(async (tx) => {
+        resolve(tx);
+        if (!(await ended)) throw rollback;
+      });
+      done.catch(reject);
+    });
+
+    return {
+      tx,
+      end: async (commit) => {
+        end(commit);
+        await done.catch((error) => {
+          if (error !== rollback) throw error;
+        });
+      },
+    };
+  }
+
+  /**
+   * Lock rows of a table with `SELECT ... FOR UPDATE` or `FOR SHARE` and
+   * return the keys of the rows locked
+   */
+  protected async lockRows(
+    tx: any,
+    table: Table,
+    primaryKeys: any[],
+    lock: LockOptions,
+  ): Promise<any[]> {
+    const rows = await tx
+      .select(Object.fromEntries(this.getPrimaryKeyEntries(table)))
+      .from(table)
+      .where(this.buildPrimaryKeyInCondition(table, primaryKeys))
+      .for(
+        lock.mode,
+        lock.skipLocked
+          ? { skipLocked: true }
+          : lock.noWait
+            ? { noWait: true }
+            : undefined,
+      );
+
+    return rows.map((row: any) => this.extractPrimaryKeyValue(table, row));
+  }
+
+  /**
+   * Run `work` in a transaction, committing if it resolves and rolling back if
+   * it throws. `tx` is what statements are built on.
+   */
+  protected async runInTransaction<T>(
+    work: (tx: any) => Promise<T>,
+  ): Promise<T> {
     const tx = await this.beginTransaction();
 
     try {
-      // Group changes by type for optimal execution order
-      const inserts = changeSets.filter(
-        (cs) => cs.state === EntityStateEnum.Added,
+      const result = await work(tx);
+      await this.commitTransaction(tx);
+      return result;
+    } catch (error) {
+      await this.rollbackTransaction(tx);
+      throw error;
+    }
+  }
+
+  /**
+   * Apply changesets using an open transaction
+   */
+  protected async applyChangeSets(
+    tx: any,
+    changeSets: ChangeSet[],
+    bulkOperations: BulkOperation[] = [],
+  ): Promise<void> {
+    // Bulk operations see the rows as they were before the other changes
+    for (const operation of bulkOperations) {
+      await this.writing(this.getTableFromName(operation.tableName), [], () =>
+        this.executeBulkOperation(tx, operation),
       );
-      const updates = changeSets.filter(
-        (cs) => cs.state === EntityStateEnum.Modified,
+    }
+
+    // Group changes by type for optimal execution order
+    const inserts = changeSets.filter(
+      (cs) => cs.state === EntityStateEnum.Added,
+    );
+    const updates = changeSets.filter(
+      (cs) => cs.state === EntityStateEnum.Modified,
+    );
+    const deletes = changeSets.filter(
+      (cs) => cs.state === EntityStateEnum.Deleted,
+    );
+
+    // Execute in order: inserts (parents first), updates, deletes (children first)
+    for (const [table, group] of this.sortByForeignKeys(
+      this.groupByTable(inserts),
+    )) {
+      const upserts = group.filter((changeSet) => changeSet.onConflict);
+      const plain = group.filter((changeSet) => !changeSet.onConflict);
+      await this.writing(table, plain, () =>
+        this.insertChangeSets(tx, table, plain),
       );
-      const deletes = changeSets.filter(
-        (cs) => cs.state === EntityStateEnum.Deleted,
+
+      for (const {
+        onConflict,
+        columnKeys,
+        changeSets: upsertGroup,
+      } of this.groupUpserts(upserts)) {
+        await this.writing(table, upsertGroup, () =>
+          this.upsertChangeSets(tx, table, onConflict, columnKeys, upsertGroup),
+        );
+      }
+    }
+
+    for (const { table, columnKeys, changeSets: group } of this.groupUpdates(
+      updates,
+    )) {
+      await this.writing(table, group, () =>
+        this.updateChangeSets(tx, table, columnKeys, group),
       );
+    }
+
+    const deleteGroups = this.sortByForeignKeys(this.groupByTable(deletes));
+    for (const [table, group] of deleteGroups.reverse()) {
+      await this.writing(table, group, () =>
+        this.deleteChangeSets(tx, table, group),
+      );
+    }
+
+    // Thrown inside the transaction so the whole save is rolled back
+    const conflicts = changeSets.filter(
+      (changeSet) => changeSet.versionConflict,
+    );
+    if (conflicts.length > 0) {
+      const described = conflicts.map((changeSet) => {
+        const primaryKey = this.extractPrimaryKeyValue(
+          this.getTableFromName(changeSet.tableName),
+          changeSet.entity,
+        );
+        return `${changeSet.tableName} ${JSON.stringify(primaryKey)}`;
+      });
+
+      throw new ConcurrencyConflictError(
+        `Rows were changed or deleted since they were loaded: ${described.join(", ")}`,
+        conflicts.map(
+          (changeSet) => changeSet.originalEntity ?? changeSet.entity,
+        ),
+      );
+    }
+  }
+
+  /**
+   * Run a hook writing `changeSets` to `table`, turning its errors into a
+   * `SaveError` about them
+   */
+  private async writing(
+    table: Table,
+    changeSets: ChangeSet[],
+    write: () => Promise<void>,
+  ): Promise<void> {
+    this.currentWrite = { table, changeSets };
+    try {
+      await write();
+    } catch (error) {
+      throw this.toSaveError(error, table, changeSets);
+    } finally {
+      this.currentWrite = null;
+    }
+  }
 
-      // Execute in order: inserts, updates, deletes
-      // This helps avoid foreign key constraint issues
+  /**
+   * Group changesets by table, keeping the order tables first appear in
+   */
+  protected groupByTable(changeSets: ChangeSet[]): Map<Table, ChangeSet[]> {
+    const groups = new Map<Table, ChangeSet[]>();
 
-      for (const changeSet of inserts) {
-        const table = this.getTableFromName(changeSet.tableName);
-        await this.executeInsert(table, [changeSet.entity]);
+    for (const changeSet of changeSets) {
+      const table = this.getTableFromName(changeSet.tableName);
+      const group = groups.get(table);
+      if (group) {
+        group.push(changeSet);
+      } else {
+        groups.set(table, [changeSet]);
       }
+    }
 
-      for (const changeSet of updates) {
-        const table = this.getTableFromName(changeSet.tableName);
-        const primaryKey = this.extractPrimaryKeyValue(table, changeSet.entity);
-        const changes = this.buildUpdateChanges(changeSet);
-        await this.executeUpdate(table, primaryKey, changes);
+    return groups;
+  }
+
+  /**
+   * Order table groups so that rows referenced by rows of other groups come
+   * first. Only the foreign keys rows set to a row of the groups order their
+   * tables, so keys that are null or reference other rows add no order, and
+   * self-references are ignored. When tables reference each other that way,
+   * the rows are ordered one by one, into several groups per table; only rows
+   * referencing each other in a cycle cannot be ordered.
+   */
+  protected sortByForeignKeys(
+    groups: Map<Table, ChangeSet[]>,
+  ): [Table, ChangeSet[]][] {
+    const references = this.getRowReferences(groups);
+    const tableReferences = new Map<Table, Set<Table>>();
+    for (const [table, group] of groups) {
+      const referenced = new Set<Table>();
+      for (const changeSet of group) {
+        for (const row of references.get(changeSet) ?? []) {
+          referenced.add(this.getTableFromName(row.tableName));
+        }
+      }
+      tableReferences.set(table, referenced);
+    }
+
+    const tables = this.sortReferencedFirst(
+      [...groups.keys()],
+      (table) => tableReferences.get(table)!,
+    );
+    if (Array.isArray(tables)) {
+      return tables.map((table) => [table, groups.get(table)!]);
+    }
+
+    const rows = this.sortReferencedFirst(
+      [...groups.values()].flat(),
+      (changeSet) => references.get(changeSet) ?? [],
+    );
+    if (!Array.isArray(rows)) {
+      const cycle = rows.cycle
+        .map((changeSet) => changeSet.tableName)
+        .join(" -> ");
+      throw new Error(
+        `Cannot order changes: foreign keys form a cycle (${cycle})`,
+      );
+    }
+
+    const sorted: [Table, ChangeSet[]][] = [];
+    for (const changeSet of rows) {
+      const table = this.getTableFromName(changeSet.tableName);
+      const last = sorted.at(-1);
+      if (last?.[0] === table) {
+        last[1].push(changeSet);
+      } else {
+        sorted.push([table, [changeSet]]);
+      }
+    }
+
+    return sorted;
+  }
+
+  /**
+   * Map each changeset to the changesets of other tables in the groups whose
+   * row its foreign keys reference
+   */
+  private getRowReferences(
+    groups: Map<Table, ChangeSet[]>,
+  ): Map<ChangeSet, ChangeSet[]> {
+    const references = new Map<ChangeSet, ChangeSet[]>();
+
+    for (const [table, group] of groups) {
+      for (const foreignKey of this.getForeignKeys(table)) {
+        const referencedGroup = groups.get(foreignKey.foreignTable);
+        if (foreignKey.foreignTable === table || !referencedGroup) continue;
+
+        const rowsByKey = new Map<string, ChangeSet>();
+        for (const changeSet of referencedGroup) {
+          const key = this.getColumnValuesKey(
+            foreignKey.foreignTable,
+            foreignKey.foreignColumns,
+            changeSet.entity,
+          );
+          if (key !== null) rowsByKey.set(key, changeSet);
+        }
+
+        for (const changeSet of group) {
+          const key = this.getColumnValuesKey(
+            table,
+            foreignKey.columns,
+            changeSet.entity,
+          );
+          const referenced = key === null ? undefined : rowsByKey.get(key);
+          if (!referenced) continue;
+
+          const rows = references.get(changeSet);
+          if (rows) {
+            rows.push(referenced);
+          } else {
+            references.set(changeSet, [referenced]);
+          }
+        }
+      }
+    }
+
+    return references;
+  }
+
+  /**
+   * Serialize the values an entity has for some columns of its table, or
+   * return null if one of them is not set
+   */
+  private getColumnValuesKey(
+    table: Table,
+    columns: Column[],
+    entity: any,
+  ): string | null {
+    const tableColumns = Object.entries(getTableColumns(table));
+    const values = columns.map((column) => {
+      const entry = tableColumns.find(([, { name }]) => name === column.name);
+      return entry ? entity[entry[0]] : undefined;
+    });
+    if (values.some((value) => value === null || value === undefined)) {
+      return null;
+    }
+
+    return values.length === 1 ? String(values[0]) : JSON.stringify(values);
+  }
+
+  /**
+   * Depth-first order of `nodes` with each node after the nodes it
+   * references, or the first cycle found among them
+   */
+  private sortReferencedFirst<T>(
+    nodes: T[],
+    getReferenced: (node: T) => Iterable<T>,
+  ): T[] | { cycle: T[] } {
+    const sorted: T[] = [];
+    const visited = new Set<T>();
+    const path: T[] = [];
+
+    const visit = (node: T): T[] | null => {
+      if (visited.has(node)) return null;
+
+      const cycleStart = path.indexOf(node);
+      if (cycleStart !== -1) {
+        return [...path.slice(cycleStart), node];
+      }
+
+      path.push(node);
+      for (const referenced of getReferenced(node)) {
+        const cycle = visit(referenced);
+        if (cycle) return cycle;
       }
+      path.pop();
+
+      visited.add(node);
+      sorted.push(node);
+      return null;
+    };
+
+    for (const node of nodes) {
+      const cycle = visit(node);
+      if (cycle) return { cycle };
+    }
+
+    return sorted;
+  }
+
+  /**
+   * Get the foreign keys of a table
+   */
+  protected getForeignKeys(_table: Table): ForeignKeyReference[] {
+    return [];
+  }
+
+  /**
+   * Group modified changesets by table and by the set of columns they change
+   */
+  protected groupUpdates(
+    changeSets: ChangeSet[],
+  ): { table: Table; columnKeys: string[]; changeSets: ChangeSet[] }[] {
+    const groups = new Map<
+      string,
+      { table: Table; columnKeys: string[]; changeSets: ChangeSet[] }
+    >();
 
-      for (const changeSet of deletes) {
-        const table = this.getTableFromName(changeSet.tableName);
+    for (const changeSet of changeSets) {
+      const columnKeys = [...changeSet.changes.keys()].sort();
+      const groupKey = JSON.stringify([changeSet.tableName, columnKeys]);
+      const group = groups.get(groupKey);
+      if (group) {
+        group.changeSets.push(changeSet);
+      } else {
+        groups.set(groupKey, {
+          table: this.getTableFromName(changeSet.tableName),
+          columnKeys,
+          changeSets: [changeSet],
+        });
+      }
+    }
+
+    return [...groups.values()];
+  }
+
+  /**
+   * Run an `updateWhere()` or `deleteWhere()` as a single statement
+   */
+  protected async executeBulkOperation(
+    tx: any,
+    operation: BulkOperation,
+  ): Promise<void> {
+    const table = this.getTableFromName(operation.tableName);
+    const where = this.buildBulkCondition(table, operation.where);
+
+    await this.executeQuery(
+      tx,
+      operation.type === "update"
+        ? tx.update(table).set(operation.changes).where(where)
+        : tx.delete(table).where(where),
+    );
+  }
+
+  /**
+   * Turn the filter of a bulk operation into SQL, calling the callback form
+   * with the table's columns and Drizzle's operators
+   */
+  protected buildBulkCondition(
+    table: Table,
+    where: BulkOperation["where"],
+  ): SQL {
+    return typeof where === "function"
+      ? where(getTableColumns(table), getOperators())
+      : where;
+  }
+
+  /**
+   * Group changesets created with `onConflict` by action and set of columns
+   * with a value, so each group shares one conflict clause
+   */
+  protected groupUpserts(changeSets: ChangeSet[]): {
+    onConflict: ConflictAction;
+    columnKeys: string[];
+    changeSets: ChangeSet[];
+  }[] {
+    const groups = new Map<
+      string,
+      {
+        onConflict: ConflictAction;
+        columnKeys: string[];
+        changeSets: ChangeSet[];
+      }
+    >();
+
+    for (const changeSet of changeSets) {
+      const columnKeys = Object.keys(changeSet.entity)
+        .filter((key) => changeSet.entity[key] !== undefined)
+        .sort();
+      const groupKey = JSON.stringify([changeSet.onConflict, columnKeys]);
+      const group = groups.get(groupKey);
+      if (group) {
+        group.changeSets.push(changeSet);
+      } else {
+        groups.set(groupKey, {
+          onConflict: changeSet.onConflict!,
+          columnKeys,
+          changeSets: [changeSet],
+        });
+      }
+    }
+
+    return [...groups.values()];
+  }
+
+  /**
+   * Insert entities of one table that were created with `onConflict`, as
+   * multi-row INSERT statements whose conflict clause overwrites or skips rows
+   * with the same primary key. Their keys are always set, so nothing is read
+   * back.
+   */
+  protected async upsertChangeSets(
+    tx: any,
+    table: Table,
+    onConflict: ConflictAction,
+    columnKeys: string[],
+    changeSets: ChangeSet[],
+  ): Promise<void> {
+    const batchSize = this.getInsertBatchSize(table);
+
+    for (let i = 0; i < changeSets.length; i += batchSize) {
+      const batch = changeSets.slice(i, i + batchSize);
+      await this.executeQuery(
+        tx,
+        this.withConflictAction(
+          tx.insert(table).values(batch.map((changeSet) => changeSet.entity)),
+          table,
+          onConflict,
+          columnKeys,
+        ),
+      );
+    }
+  }
+
+  /**
+   * Add the conflict clause to an INSERT:
+   * `ON CONFLICT (pk) DO UPDATE SET col = excluded.col` for the non-key
+   * columns in `columnKeys`, or `ON CONFLICT (pk) DO NOTHING`
+   */
+  protected withConflictAction(
+    query: any,
+    table: Table,
+    onConflict: ConflictAction,
+    columnKeys: string[],
+  ): any {
+    const primaryKeyColumns = this.getPrimaryKeyColumns(table);
+    const target = Object.values(primaryKeyColumns);
+    const set = this.buildConflictSet(
+      table,
+      columnKeys,
+      (column) => sql`excluded.${sql.identifier(column.name)}`,
+    );
+
+    if (onConflict === "ignore" || Object.keys(set).length === 0) {
+      return query.onConflictDoNothing({ target });
+    }
+
+    return query.onConflictDoUpdate({ target, set });
+  }
+
+  /**
+   * Map the non-key columns in `columnKeys` to the value a conflicting row is
+   * overwritten with
+   */
+  protected buildConflictSet(
+    table: Table,
+    columnKeys: string[],
+    value: (column: Column) => SQL,
+  ): Record<string, SQL> {
+    const columns = getTableColumns(table);
+    const primaryKeyColumns = this.getPrimaryKeyColumns(table);
+
+    return Object.fromEntries(
+      columnKeys
+        .filter((key) => columns[key] && !(key in primaryKeyColumns))
+        .map((key) => [key, value(columns[key]!)]),
+    );
+  }
+
+  /**
+   * Update entities of one table that changed the same columns, coalescing
+   * several rows into a single statement
+   */
+  protected async updateChangeSets(
+    tx: any,
+    table: Table,
+    columnKeys: string[],
+    changeSets: ChangeSet[],
+  ): Promise<void> {
+    const batchSize = this.getUpdateBatchSize(table, columnKeys.length);
+    const unversioned = changeSets.filter((changeSet) => !changeSet.version);
+
+    for (let i = 0; i < unversioned.length; i += batchSize) {
+      const batch = unversioned.slice(i, i + batchSize);
+      const query =
+        batch.length > 1
+          ? this.buildBatchUpdate(
+              table,
+              columnKeys,
+              batch.map((changeSet) => ({
+                ...changeSet.entity,
+                ...this.buildUpdateChanges(changeSet),
+              })),
+            )
+          : null;
+
+      if (query) {
+        await this.executeQuery(tx, query);
+        continue;
+      }
+
+      for (const changeSet of batch) {
         const primaryKey = this.extractPrimaryKeyValue(table, changeSet.entity);
-        await this.executeDelete(table, primaryKey);
+
+        await this.executeQuery(
+          tx,
+          tx
+            .update(table)
+            .set(this.buildUpdateChanges(changeSet))
+            .where(this.buildPrimaryKeyCondition(table, primaryKey)),
+        );
       }
+    }
 
-      await this.commitTransaction(tx);
-    } catch (error) {
-      await this.rollbackTransaction(tx);
-      throw error;
+    for (const changeSet of changeSets) {
+      if (changeSet.version) {
+        await this.executeVersionedChangeSet(tx, table, changeSet);
+      }
+    }
+  }
+
+  /**
+   * Number of rows per batched UPDATE that keeps it under the parameter limit.
+   * Sized for the worst case of repeating the key for every changed column.
+   */
+  protected getUpdateBatchSize(table: Table, columnCount: number): number {
+    const keyCount = Math.max(1, this.getPrimaryKeyEntries(table).length);
+    const parametersPerRow = columnCount * (keyCount + 1) + keyCount;
+    return Math.max(1, Math.floor(this.getMaxParameters() / parametersPerRow));
+  }
+
+  /**
+   * Build a single statement updating `columnKeys` of every row, matched by
+   * primary key:
+   * `UPDATE t SET col = CASE pk WHEN ? THEN ? ... END WHERE pk IN (...)`
+   */
+  protected buildBatchUpdate(
+    table: Table,
+    columnKeys: string[],
+    rows: Record<string, any>[],
+  ): SQL {
+    const columns = getTableColumns(table);
+    const primaryKeyColumns = Object.entries(this.getPrimaryKeyColumns(table));
+    const [singleKey, singleColumn] = primaryKeyColumns[0]!;
+
+    const assignments = columnKeys.map((key) => {
+      const column = columns[key]!;
+      const branches = rows.map((row) => {
+        const value = sql.param(row[key], column);
+        if (primaryKeyColumns.length === 1) {
+          return sql`when ${sql.param(row[singleKey], singleColumn)} then ${value}`;
+        }
+
+        const match = primaryKeyColumns.map(
+          ([pkKey, pkColumn]) =>
+            sql`${sql.identifier(pkColumn.name)} = ${sql.param(row[pkKey], pkColumn)}`,
+        );
+        return sql`when ${sql.join(match, sql` and `)} then ${value}`;
+      });
+
+      const subject =
+        primaryKeyColumns.length === 1
+          ? sql` ${sql.identifier(singleColumn.name)}`
+          : sql``;
+      return sql`${sql.identifier(column.name)} = case${subject} ${sql.join(branches, sql` `)} end`;
+    });
+
+    const primaryKeys = rows.map((row) =>
+      this.extractPrimaryKeyValue(table, row),
+    );
+
+    return sql`update ${table} set ${sql.join(assignments, sql`, `)} where ${this.buildPrimaryKeyInCondition(table, primaryKeys)}`;
+  }
+
+  /**
+   * Delete entities of one table with `DELETE ... WHERE pk IN (...)` statements
+   */
+  protected async deleteChangeSets(
+    tx: any,
+    table: Table,
+    changeSets: ChangeSet[],
+  ): Promise<void> {
+    const keyCount = Math.max(1, this.getPrimaryKeyEntries(table).length);
+    const batchSize = Math.max(
+      1,
+      Math.floor(this.getMaxParameters() / keyCount),
+    );
+
+    const unversioned = changeSets.filter((changeSet) => !changeSet.version);
+
+    for (let i = 0; i < unversioned.length; i += batchSize) {
+      const primaryKeys = unversioned
+        .slice(i, i + batchSize)
+        .map((changeSet) =>
+          this.extractPrimaryKeyValue(table, changeSet.entity),
+        );
+
+      await this.executeQuery(
+        tx,
+        tx
+          .delete(table)
+          .where(this.buildPrimaryKeyInCondition(table, primaryKeys)),
+      );
+    }
+
+    for (const changeSet of changeSets) {
+      if (changeSet.version) {
+        await this.executeVersionedChangeSet(tx, table, changeSet);
+      }
     }
   }
 
+  /**
+   * Update or delete the row of a versioned entity in its own statement, only
+   * if the row still has the expected version. The changeset is flagged with
+   * `versionConflict` if no row was changed.
+   */
+  protected async executeVersionedChangeSet(
+    tx: any,
+    table: Table,
+    changeSet: ChangeSet,
+  ): Promise<void> {
+    const { key, value } = changeSet.version!;
+    const where = and(
+      this.buildPrimaryKeyCondition(
+        table,
+        this.extractPrimaryKeyValue(table, changeSet.entity),
+      ),
+      eq(getTableColumns(table)[key]!, value),
+    );
+    const query =
+      changeSet.state === EntityStateEnum.Deleted
+        ? tx.delete(table).where(where)
+        : tx.update(table).set(this.buildUpdateChanges(changeSet)).where(where);
+
+    await this.executeCountedQuery(tx, table, query, (count) => {
+      if (count === 0) {
+        changeSet.versionConflict = true;
+      }
+    });
+  }
+
+  /**
+   * Run an UPDATE or DELETE and pass the number of rows it changed to
+   * `onCount`. The keys of the changed rows are read back with RETURNING.
+   */
+  protected async executeCountedQuery(
+    tx: any,
+    table: Table,
+    query: any,
+    onCount: (count: number) => void,
+  ): Promise<void> {
+    await this.executeQuery(
+      tx,
+      query.returning(Object.fromEntries(this.getPrimaryKeyEntries(table))),
+      (rows: any[]) => onCount(rows.length),
+    );
+  }
+
+  /**
+   * Run one statement of a flush, either a Drizzle query builder or raw SQL.
+   * `onResult` receives what the statement returned.
+   */
+  protected async executeQuery(
+    tx: any,
+    query: any,
+    onResult?: (result: any) => void,
+  ): Promise<void> {
+    const result = is(query, SQL)
+      ? await this.executeStatement(tx, query)
+      : await query;
+    onResult?.(result);
+  }
+
+  /**
+   * Run a raw statement inside a transaction
+   */
+  protected async executeStatement(tx: any, query: SQL): Promise<unknown> {
+    return tx.execute(query);
+  }
+
+  /**
+   * Insert new entities of one table as multi-row INSERT statements. Chunks
+   * containing entities created without a primary key are inserted with
+   * RETURNING so the generated key (and any other column the database filled
+   * in) is recorded on the changeset.
+   */
+  protected async insertChangeSets(
+    tx: any,
+    table: Table,
+    changeSets: ChangeSet[],
+  ): Promise<void> {
+    const batchSize = this.getInsertBatchSize(table);
+
+    for (let i = 0; i < changeSets.length; i += batchSize) {
+      const batch = changeSets.slice(i, i + batchSize);
+      const values = batch.map((changeSet) => changeSet.entity);
+      const needsReturning = values.some(
+        (entity) =>
+          !this.isPrimaryKeyComplete(this.extractPrimaryKeyValue(table, entity)),
+      );
+
+      if (!needsReturning) {
+        await this.executeQuery(tx, tx.insert(table).values(values));
+        continue;
+      }
+
+      await this.insertReturning(tx, table, batch);
+    }
+  }
+
+  /**
+   * Insert entities in one statement with RETURNING and record the values
+   * the database filled in on their changesets. Returned rows are matched to
+   * the entities by position, which Postgres returns in VALUES order;
+   * adapters of databases that do not should pass one entity at a time.
+   */
+  protected async insertReturning(
+    tx: any,
+    table: Table,
+    changeSets: ChangeSet[],
+  ): Promise<void> {
+    await this.executeQuery(
+      tx,
+      tx
+        .insert(table)
+        .values(changeSets.map((changeSet) => changeSet.entity))
+        .returning(),
+      (rows: any[]) => {
+        changeSets.forEach((changeSet, index) => {
+          const generatedValues = this.pickGeneratedValues(
+            changeSet.entity,
+            rows[index],
+          );
+          if (Object.keys(generatedValues).length > 0) {
+            changeSet.generatedValues = generatedValues;
+          }
+        });
+      },
+    );
+  }
+
+  /**
+   * Number of rows per INSERT statement that keeps it under the parameter limit
+   */
+  protected getInsertBatchSize(table: Table): number {
+    const columnCount = Object.keys(getTableColumns(table)).length;
+    return Math.max(1, Math.floor(this.getMaxParameters() / columnCount));
+  }
+
+  /**
+   * Pick the values of a returned row that were not set on the inserted entity
+   */
+  protected pickGeneratedValues(entity: any, row: any): Record<string, any> {
+    const generated: Record<string, any> = {};
+
+    for (const [key, value] of Object.entries(row ?? {})) {
+      if (entity[key] === undefined && value !== undefined) {
+        generated[key] = value;
+      }
+    }
+
+    return generated;
+  }
+
   /**
    * Build update changes from a changeset
    */
@@ -107,16 +1218,9 @@ export abstract class BaseDatabaseAdapter implements DatabaseAdapter {
    * Extract primary key value from an entity
    */
   extractPrimaryKeyValue(table: Table, entity: any): any {
-    const tableName = this.tableNamesMap[getTableUniqueName(table)]!;
-    const { columns } = this.tablesRelationalConfig[tableName]!;
-    const primaryKeyValues: any[] = [];
-
-    // Fallback: iterate through columns array to find primary keys
-    for (const column of Object.values(columns)) {
-      if (column.primary) {
-        primaryKeyValues.push(entity[column.name]);
-      }
-    }
+    const primaryKeyValues = this.getPrimaryKeyEntries(table).map(
+      ([key]) => entity[key],
+    );
 
     // Return single value for single primary key, array for composite keys
     return primaryKeyValues.length === 1
@@ -124,6 +1228,83 @@ export abstract class BaseDatabaseAdapter implements DatabaseAdapter {
       : primaryKeyValues;
   }
 
+  /**
+   * Check whether a primary key value (single or composite) is fully set
+   */
+  isPrimaryKeyComplete(primaryKey: any): boolean {
+    if (Array.isArray(primaryKey)) {
+      return (
+        primaryKey.length > 0 &&
+        primaryKey.every((value) => value !== null && value !== undefined)
+      );
+    }
+
+    return primaryKey !== null && primaryKey !== undefined;
+  }
+
+  /**
+   * Get the primary key columns of a table keyed by property name, including
+   * columns of a composite primary key declared in the table's extra config
+   */
+  getPrimaryKeyColumns(table: Table): Record<string, Column> {
+    return Object.fromEntries(this.getPrimaryKeyEntries(table));
+  }
+
+  /**
+   * Build a condition matching a single row by its primary key value
+   */
+  buildPrimaryKeyCondition(table: Table, primaryKey: any): SQL {
+    const columns = this.getPrimaryKeyEntries(table).map(([, column]) => column);
+
+    if (columns.length === 0) {
+      throw new Error(`No primary key found for table ${getTableName(table)}`);
+    }
+
+    if (columns.length === 1) {
+      return eq(columns[0]!, primaryKey);
+    }
+
+    return and(...columns.map((column, i) => eq(column, primaryKey[i])))!;
+  }
+
+  /**
+   * Build a condition matching every row in a list of primary key values
+   */
+  buildPrimaryKeyInCondition(table: Table, primaryKeys: any[]): SQL {
+    const columns = this.getPrimaryKeyEntries(table).map(([, column]) => column);
+
+    if (columns.length === 0) {
+      throw new Error(`No primary key found for table ${getTableName(table)}`);
+    }
+
+    if (columns.length === 1) {
+      return inArray(columns[0]!, primaryKeys);
+    }
+
+    return or(
+      ...primaryKeys.map((primaryKey) =>
+        this.buildPrimaryKeyCondition(table, primaryKey),
+      ),
+    )!;
+  }
+
+  /**
+   * Get the schema key a table is registered under
+   */
+  getTableKey(table: Table): string {
+    return this.tableNamesMap[getTableUniqueName(table)] ?? getTableName(table);
+  }
+
+  /**
+   * Get the relational config (columns, relations, primary key) of a table
+   */
+  getTableRelationalConfig(tableName: string): TableRelationalConfig {
+    const config = this.tablesRelationalConfig[tableName];
+    if (!config) throw new Error(`Table '${tableName}' not found in schema`);
+
+    return config;
+  }
+
   /**
    * Get table instance from table name
    * This is a placeholder - implementations should override this
@@ -173,16 +1354,41 @@ export abstract class BaseDatabaseAdapter implements DatabaseAdapter {
     }
   }
 
+  /**
+   * Get the columns of composite primary keys declared with `primaryKey()`.
+   * Drizzle's relational config only picks these up for Postgres tables, so
+   * dialect adapters read them from their own table config.
+   */
+  protected getCompositePrimaryKeyColumns(_table: Table): Column[] {
+    return [];
+  }
+
   getPrimaryKeyColumn(table: Table): Column | null {
+    return this.getPrimaryKeyEntries(table)[0]?.[1] ?? null;
+  }
+
+  /**
+   * Primary key columns as [property name, column] pairs in table column order
+   */
+  private getPrimaryKeyEntries(table: Table): [string, Column][] {
+    const cached = this.primaryKeyColumnsCache.get(table);
+    if (cached) return cached;
+
     const tableName = this.tableNamesMap[getTableUniqueName(table)]!;
-    const { columns } = this.tablesRelationalConfig[tableName]!;
+    const { columns, primaryKey } = this.tablesRelationalConfig[tableName]!;
+    // Composite key columns come from the extra config and may be distinct
+    // column instances, so they are matched by database name
+    const primaryKeyNames = new Set(
+      [...primaryKey, ...this.getCompositePrimaryKeyColumns(table)].map(
+        (column) => column.name,
+      ),
+    );
 
-    for (const column of Object.values(columns)) {
-      if (column.primary) {
-        return column;
-      }
-    }
+    const entries = Object.entries(columns).filter(([, column]) =>
+      primaryKeyNames.has(column.name),
+    );
+    this.primaryKeyColumnsCache.set(table, entries);
 
-    return null;
+    return entries;
   }
 }
@@ -0,0 +1,16 @@
+import { drizzle } from "drizzle-orm/better-sqlite3";
+import Database from "better-sqlite3";
+import { BetterSQLite3Adapter } from "./adapter";
+import { describeSqliteAdapter } from "../sqlite-core/adapter-suite";
+
+describeSqliteAdapter("BetterSQLite3Adapter", (schema) => {
+  const sqlite = new Database(":memory:");
+  const db = drizzle(sqlite, { schema });
+
+  return {
+    db,
+    adapter: new BetterSQLite3Adapter(db),
+    exec: (query) => sqlite.exec(query),
+    close: () => sqlite.close(),
+  };
+});
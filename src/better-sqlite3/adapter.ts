@@ -0,0 +1,14 @@
+import type { BetterSQLite3Database } from "drizzle-orm/better-sqlite3";
+import { SqliteAdapter } from "../sqlite-core/adapter";
+
+/**
+ * SQLite database adapter for better-sqlite3
+ */
+export class BetterSQLite3Adapter extends SqliteAdapter {
+  protected override db: BetterSQLite3Database<any>;
+
+  constructor(db: BetterSQLite3Database<any>) {
+    super(db);
+    this.db = db;
+  }
+}
@@ -0,0 +1,27 @@
+import { UnitOfWork } from "../uow";
+import type {
+  UnitOfWorkOptions,
+  UnitOfWorkRepos,
+  AnyDrizzleDB,
+} from "../types";
+import { BetterSQLite3Adapter } from "./adapter";
+import type { BetterSQLite3Database } from "drizzle-orm/better-sqlite3";
+
+export { BetterSQLite3Adapter } from "./adapter";
+
+export type CreateUowReturnType<TDatabase extends AnyDrizzleDB> =
+  UnitOfWork<TDatabase> & UnitOfWorkRepos<TDatabase>;
+
+/**
+ * Create a Unit of Work instance for a Drizzle better-sqlite3 database
+ */
+export function drizzow<
+  TDatabase extends BetterSQLite3Database<Record<string, any>>,
+>(
+  db: TDatabase,
+  options: UnitOfWorkOptions<TDatabase> = {},
+): CreateUowReturnType<TDatabase> {
+  const adapter = new BetterSQLite3Adapter(db);
+  // Create the UoW instance
+  return new UnitOfWork(db, adapter, options) as never;
+}
@@ -0,0 +1,25 @@
+import { SQL } from "bun";
+import { drizzle } from "drizzle-orm/bun-sql";
+import { BunSQLAdapter } from "./adapter";
+import { describePostgresAdapter } from "../pg-core/adapter-suite";
+
+// Skip if no PostgreSQL connection is available
+if (!process.env.PG_TEST_DB_URL) {
+  console.log("Skipping Bun SQL tests - no PG_TEST_DB_URL set");
+}
+
+describePostgresAdapter(
+  "BunSQLAdapter",
+  async (schema) => {
+    const client = new SQL(process.env.PG_TEST_DB_URL!, { max: 1 });
+    const db = drizzle(client, { schema });
+
+    return {
+      db,
+      adapter: new BunSQLAdapter(db),
+      exec: (query) => client.unsafe(query).simple(),
+      close: () => client.close(),
+    };
+  },
+  { skip: !process.env.PG_TEST_DB_URL },
+);
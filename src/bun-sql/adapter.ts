@@ -0,0 +1,14 @@
+import type { BunSQLDatabase } from "drizzle-orm/bun-sql";
+import { PostgresAdapter } from "../pg-core/adapter";
+
+/**
+ * PostgreSQL database adapter for Bun's built-in SQL client
+ */
+export class BunSQLAdapter extends PostgresAdapter {
+  protected override db: BunSQLDatabase<any>;
+
+  constructor(db: BunSQLDatabase<any>) {
+    super(db);
+    this.db = db;
+  }
+}
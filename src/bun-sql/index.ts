@@ -0,0 +1,25 @@
+import { UnitOfWork } from "../uow";
+import type {
+  UnitOfWorkOptions,
+  UnitOfWorkRepos,
+  AnyDrizzleDB,
+} from "../types";
+import { BunSQLAdapter } from "./adapter";
+import type { BunSQLDatabase } from "drizzle-orm/bun-sql";
+
+export { BunSQLAdapter } from "./adapter";
+
+export type CreateUowReturnType<TDatabase extends AnyDrizzleDB> =
+  UnitOfWork<TDatabase> & UnitOfWorkRepos<TDatabase>;
+
+/**
+ * Create a Unit of Work instance for a Drizzle Bun SQL database
+ */
+export function drizzow<TDatabase extends BunSQLDatabase<Record<string, any>>>(
+  db: TDatabase,
+  options: UnitOfWorkOptions<TDatabase> = {},
+): CreateUowReturnType<TDatabase> {
+  const adapter = new BunSQLAdapter(db);
+  // Create the UoW instance
+  return new UnitOfWork(db, adapter, options) as never;
+}
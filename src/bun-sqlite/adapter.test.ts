@@ -1,9 +1,12 @@
 import { describe, test, expect, beforeEach, afterEach } from "bun:test";
 import { getTableConfig } from "drizzle-orm/sqlite-core";
+import { drizzle } from "drizzle-orm/bun-sqlite";
+import { Database } from "bun:sqlite";
 
 import { BunSQLiteAdapter } from "./adapter";
 import { EntityState } from "../types";
 import { TestDatabase, users } from "../uow.test";
+import { describeSqliteAdapter } from "../sqlite-core/adapter-suite";
 
 function createTestUser(id: number, username: string, email?: string) {
   return { id, username, email: email || `${username}@example.com` };
@@ -68,3 +71,15 @@ describe("SQLite Adapter", () => {
     expect(changes.email).toBe("new@example.com");
   });
 });
+
+describeSqliteAdapter("BunSQLiteAdapter", (schema) => {
+  const sqlite = new Database(":memory:");
+  const db = drizzle(sqlite, { schema });
+
+  return {
+    db,
+    adapter: new BunSQLiteAdapter(db),
+    exec: (query) => sqlite.exec(query),
+    close: () => sqlite.close(),
+  };
+});
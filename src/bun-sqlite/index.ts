@@ -1,5 +1,5 @@
 import { UnitOfWork } from "../uow";
-import type { UnitOfWorkRepos } from "../types";
+import type { UnitOfWorkOptions, UnitOfWorkRepos } from "../types";
 import { BunSQLiteAdapter } from "./adapter";
 import type { BaseSQLiteDatabase } from "drizzle-orm/sqlite-core";
 
@@ -14,8 +14,9 @@ export type CreateUowReturnType<
  */
 export function drizzow<TDatabase extends BaseSQLiteDatabase<any, any, any>>(
   db: TDatabase,
+  options: UnitOfWorkOptions<TDatabase> = {},
 ): CreateUowReturnType<TDatabase> {
   const adapter = new BunSQLiteAdapter(db);
   // Create the UoW instance
-  return new UnitOfWork(db, adapter) as never;
+  return new UnitOfWork(db, adapter, options) as never;
 }
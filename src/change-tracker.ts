@@ -1,5 +1,5 @@
-import { getTableName, type Table } from "drizzle-orm";
-import type { TrackedEntity, ChangeSet } from "./types";
+import type { Table } from "drizzle-orm";
+import type { TrackedEntity, ChangeSet, ConflictAction } from "./types";
 import { EntityState } from "./types";
 import { IdentityMap } from "./identity-map";
 import type { BaseDatabaseAdapter } from "./base-adapter";
@@ -28,7 +28,7 @@ export class ChangeTracker {
       return; // Already tracked
     }
 
-    const tableName = getTableName(table);
+    const tableName = this.adapter.getTableKey(table);
     const primaryKey = this.adapter.extractPrimaryKeyValue(table, entity);
 
     const trackedEntity: TrackedEntity = {
@@ -82,8 +82,11 @@ export class ChangeTracker {
   /**
    * Mark an entity as added (new)
    */
-  markAdded(entity: any, table: Table): void {
+  markAdded(entity: any, table: Table, onConflict?: ConflictAction): void {
     this.track(entity, table, EntityState.Added);
+    if (onConflict) {
+      this.trackedEntities.get(entity)!.onConflict = onConflict;
+    }
   }
 
   /**
@@ -149,12 +152,24 @@ export class ChangeTracker {
         continue;
       }
 
+      // Transient entities deleted before their key was generated never
+      // reached the database, so there is nothing to delete
+      if (
+        tracked.state === EntityState.Deleted &&
+        !this.adapter.isPrimaryKeyComplete(tracked.primaryKey)
+      ) {
+        continue;
+      }
+
       const changeSet: ChangeSet = {
         entity: tracked.entity,
         state: tracked.state,
         changes: new Map(),
         tableName: tracked.tableName,
       };
+      if (tracked.state === EntityState.Added && tracked.onConflict) {
+        changeSet.onConflict = tracked.onConflict;
+      }
 
       if (tracked.state === EntityState.Modified) {
         // Compute the actual changes
@@ -198,6 +213,27 @@ export class ChangeTracker {
     this.persistedOriginalValues.clear();
   }
 
+  /**
+   * Take the current values of tracked entities as their original values,
+   * once every pending change was written. Deleted entities are untracked.
+   */
+  acceptChanges(): void {
+    for (const [entity, tracked] of this.trackedEntities) {
+      if (tracked.state === EntityState.Deleted) {
+        this.trackedEntities.delete(entity);
+        continue;
+      }
+
+      tracked.state = EntityState.Unchanged;
+      delete tracked.onConflict;
+      tracked.originalValues.clear();
+      this.captureOriginalValues(entity, tracked.originalValues);
+    }
+
+    // Snapshots taken from now on already hold these values
+    this.persistedOriginalValues.clear();
+  }
+
   /**
    * Mark an entity's original values as persisted
    */
@@ -222,6 +258,7 @@ export class ChangeTracker {
         originalValues: new Map(tracked.originalValues),
         tableName: tracked.tableName,
         primaryKey: tracked.primaryKey,
+        onConflict: tracked.onConflict,
       };
 
       snapshot.set(entity, clonedTracked);
@@ -266,6 +303,7 @@ export class ChangeTracker {
         originalValues: originalValues,
         tableName: tracked.tableName,
         primaryKey: tracked.primaryKey,
+        onConflict: tracked.onConflict,
       });
     }
   }
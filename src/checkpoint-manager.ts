@@ -1,9 +1,19 @@
 import type { Checkpoint, RollbackResult, TrackedEntity } from "./types";
 import { ChangeTracker } from "./change-tracker";
 import { IdentityMap } from "./identity-map";
+import {
+  CheckpointNotFoundError,
+  CheckpointOrderError,
+  DrizzowError,
+} from "./errors";
 
 /**
- * Checkpoint Manager for handling state snapshots and rollbacks
+ * Checkpoint Manager for handling state snapshots and rollbacks.
+ *
+ * Checkpoints set with a savepoint are taken after the pending changes were
+ * flushed to the database. The database can only be rolled back to a
+ * savepoint, so the checkpoints set before the last savepoint can no longer
+ * be reverted to or persisted.
  */
 export class CheckpointManager {
   private checkpoints: Checkpoint[] = [];
@@ -12,6 +22,7 @@ export class CheckpointManager {
   private identityMap: IdentityMap;
   private lastPersistedCheckpointId: number | null = null;
   private lastRevertedCheckpointId: number | null = null;
+  private lastSavepointCheckpointId: number | null = null;
 
   constructor(changeTracker: ChangeTracker, identityMap: IdentityMap) {
     this.changeTracker = changeTracker;
@@ -19,9 +30,9 @@ export class CheckpointManager {
   }
 
   /**
-   * Create a new checkpoint
+   * Create a new checkpoint, optionally recording the savepoint set with it
    */
-  setCheckpoint(): number {
+  setCheckpoint(savepoint?: string): number {
     const checkpointId = ++this.currentCheckpointId;
 
     const checkpoint: Checkpoint = {
@@ -29,9 +40,13 @@ export class CheckpointManager {
       timestamp: Date.now(),
       entityStates: this.changeTracker.createSnapshot(),
       identityMapSnapshot: this.identityMap.createSnapshot(),
+      savepoint,
     };
 
     this.checkpoints.push(checkpoint);
+    if (savepoint) {
+      this.lastSavepointCheckpointId = checkpointId;
+    }
 
     // Keep only the last 50 checkpoints to prevent memory issues
     if (this.checkpoints.length > 50) {
@@ -47,16 +62,18 @@ export class CheckpointManager {
   rollback(checkpointId: number): RollbackResult {
     const validationError = this.getRevertCheckpointError(checkpointId);
     if (validationError) {
-      return { error: validationError };
+      return { error: validationError.message, cause: validationError };
     }
 
     const checkpoint = this.checkpoints.find((cp) => cp.id === checkpointId);
 
     if (!checkpoint) {
+      const cause = new CheckpointNotFoundError(checkpointId);
       return {
-        error: `Checkpoint ${checkpointId} not found. Available checkpoints: ${this.checkpoints
+        error: `${cause.message}. Available checkpoints: ${this.checkpoints
           .map((cp) => cp.id)
           .join(", ")}`,
+        cause,
       };
     }
 
@@ -68,13 +85,18 @@ export class CheckpointManager {
       this.identityMap.restoreFromSnapshot(checkpoint.identityMapSnapshot);
 
       this.lastRevertedCheckpointId = checkpointId;
+      if (checkpoint.savepoint) {
+        this.lastSavepointCheckpointId = checkpointId;
+      }
       return { error: null };
     } catch (error) {
-      return {
-        error: `Failed to rollback to checkpoint ${checkpointId}: ${
+      const cause = new DrizzowError(
+        `Failed to rollback to checkpoint ${checkpointId}: ${
           error instanceof Error ? error.message : String(error)
         }`,
-      };
+        { cause: error },
+      );
+      return { error: cause.message, cause };
     }
   }
 
@@ -85,6 +107,20 @@ export class CheckpointManager {
     return this.checkpoints.map((cp) => cp.id);
   }
 
+  /**
+   * Get the name of the savepoint set with a checkpoint
+   */
+  getSavepoint(checkpointId: number): string | undefined {
+    return this.checkpoints.find((cp) => cp.id === checkpointId)?.savepoint;
+  }
+
+  /**
+   * Get the latest checkpoint set with a savepoint, or rolled back to
+   */
+  getLastSavepointCheckpointId(): number | null {
+    return this.lastSavepointCheckpointId;
+  }
+
   /**
    * Get checkpoint information
    */
@@ -154,6 +190,7 @@ export class CheckpointManager {
 
     this.lastPersistedCheckpointId = null;
     this.lastRevertedCheckpointId = null;
+    this.lastSavepointCheckpointId = null;
   }
 
   /**
@@ -161,7 +198,7 @@ export class CheckpointManager {
    */
   markCheckpointAsPersisted(checkpointId: number): void {
     if (!this.hasCheckpoint(checkpointId)) {
-      throw new Error(`Checkpoint ${checkpointId} not found`);
+      throw new CheckpointNotFoundError(checkpointId);
     }
     this.lastPersistedCheckpointId = checkpointId;
     this.checkpoints = this.checkpoints.filter(
@@ -192,6 +229,11 @@ export class CheckpointManager {
       return false;
     }
 
+    // Cannot persist to a checkpoint whose changes were flushed further
+    if (this.isBeforeLastSavepoint(checkpointId)) {
+      return false;
+    }
+
     return true;
   }
   /**
@@ -210,14 +252,29 @@ export class CheckpointManager {
       return false;
     }
 
+    // Savepoints can be rolled back to, other checkpoints before them cannot
+    if (
+      this.isBeforeLastSavepoint(checkpointId) &&
+      !this.getSavepoint(checkpointId)
+    ) {
+      return false;
+    }
+
     return true;
   }
+
+  private isBeforeLastSavepoint(checkpointId: number): boolean {
+    return (
+      this.lastSavepointCheckpointId !== null &&
+      checkpointId < this.lastSavepointCheckpointId
+    );
+  }
   /**
    * Get validation error for persist operation
    */
-  getPersistedCheckpointError(checkpointId: number): string | null {
+  getPersistedCheckpointError(checkpointId: number): DrizzowError | null {
     if (!this.hasCheckpoint(checkpointId)) {
-      return `Checkpoint ${checkpointId} not found`;
+      return new CheckpointNotFoundError(checkpointId);
     }
 
     if (!this.canPersistToCheckpoint(checkpointId)) {
@@ -225,15 +282,30 @@ export class CheckpointManager {
         this.lastPersistedCheckpointId !== null &&
         checkpointId < this.lastPersistedCheckpointId
       ) {
-        return `Cannot persist to checkpoint ${checkpointId} because it is before the last persisted checkpoint ${this.lastPersistedCheckpointId}`;
+        return new CheckpointOrderError(
+          `Cannot persist to checkpoint ${checkpointId} because it is before the last persisted checkpoint ${this.lastPersistedCheckpointId}`,
+          checkpointId,
+        );
       }
       if (
         this.lastRevertedCheckpointId !== null &&
         checkpointId > this.lastRevertedCheckpointId
       ) {
-        return `Cannot persist to checkpoint ${checkpointId} because it is after the last reverted checkpoint ${this.lastRevertedCheckpointId}`;
+        return new CheckpointOrderError(
+          `Cannot persist to checkpoint ${checkpointId} because it is after the last reverted checkpoint ${this.lastRevertedCheckpointId}`,
+          checkpointId,
+        );
+      }
+      if (this.isBeforeLastSavepoint(checkpointId)) {
+        return new CheckpointOrderError(
+          `Cannot persist to checkpoint ${checkpointId} because it is before savepoint checkpoint ${this.lastSavepointCheckpointId}`,
+          checkpointId,
+        );
       }
-      return `Cannot persist to checkpoint ${checkpointId}`;
+      return new CheckpointOrderError(
+        `Cannot persist to checkpoint ${checkpointId}`,
+        checkpointId,
+      );
     }
 
     return null;
@@ -241,13 +313,25 @@ export class CheckpointManager {
   /**
    * Get validation error for revert operation
    */
-  getRevertCheckpointError(checkpointId: number): string | null {
+  getRevertCheckpointError(checkpointId: number): DrizzowError | null {
     if (!this.hasCheckpoint(checkpointId)) {
-      return `Checkpoint ${checkpointId} not found`;
+      return new CheckpointNotFoundError(checkpointId);
     }
 
     if (!this.canRevertToCheckpoint(checkpointId)) {
-      return `Cannot revert to checkpoint ${checkpointId} because it is before the last persisted checkpoint ${this.lastPersistedCheckpointId}`;
+      if (
+        this.lastPersistedCheckpointId !== null &&
+        checkpointId < this.lastPersistedCheckpointId
+      ) {
+        return new CheckpointOrderError(
+          `Cannot revert to checkpoint ${checkpointId} because it is before the last persisted checkpoint ${this.lastPersistedCheckpointId}`,
+          checkpointId,
+        );
+      }
+      return new CheckpointOrderError(
+        `Cannot revert to checkpoint ${checkpointId} because it is before savepoint checkpoint ${this.lastSavepointCheckpointId}`,
+        checkpointId,
+      );
     }
 
     return null;
@@ -0,0 +1,75 @@
+import { entityKind } from "drizzle-orm";
+import { UnitOfWork } from "./uow";
+import type { BaseDatabaseAdapter } from "./base-adapter";
+import type {
+  AnyDrizzleDB,
+  UnitOfWorkOptions,
+  UnitOfWorkRepos,
+} from "./types";
+import { BunSQLiteAdapter } from "./bun-sqlite/adapter";
+import { BetterSQLite3Adapter } from "./better-sqlite3/adapter";
+import { LibSQLAdapter } from "./libsql/adapter";
+import { NodePostgresAdapter } from "./node-postgres/adapter";
+import { PostgresJsAdapter } from "./postgres-js/adapter";
+import { BunSQLAdapter } from "./bun-sql/adapter";
+import { PgliteAdapter } from "./pglite/adapter";
+import { MySql2Adapter } from "./mysql2/adapter";
+
+export type CreateUowReturnType<TDatabase extends AnyDrizzleDB> =
+  UnitOfWork<TDatabase> & UnitOfWorkRepos<TDatabase>;
+
+export interface DrizzowOptions<TDatabase extends AnyDrizzleDB = AnyDrizzleDB>
+  extends UnitOfWorkOptions<TDatabase> {
+  /** Adapter to use instead of the one detected from the database */
+  adapter?: BaseDatabaseAdapter;
+}
+
+/**
+ * Adapters keyed by the entity kind of the Drizzle session they run on.
+ * Adapters only import their driver's types, so this loads no driver.
+ * sqlite-proxy sessions are left out since any database can be behind their
+ * callback, so their adapter must be passed.
+ */
+const adaptersBySession: Record<
+  string,
+  new (db: any) => BaseDatabaseAdapter
+> = {
+  SQLiteBunSession: BunSQLiteAdapter,
+  BetterSQLiteSession: BetterSQLite3Adapter,
+  LibSQLSession: LibSQLAdapter,
+  NodePgSession: NodePostgresAdapter,
+  PostgresJsSession: PostgresJsAdapter,
+  BunSQLSession: BunSQLAdapter,
+  PgliteSession: PgliteAdapter,
+  MySql2Session: MySql2Adapter,
+};
+
+/**
+ * Create the adapter matching the driver a Drizzle database was created with
+ */
+export function createAdapter(db: AnyDrizzleDB): BaseDatabaseAdapter {
+  const session = (db as any).session;
+  const kind: string | undefined = session?.constructor?.[entityKind];
+  const Adapter = kind ? adaptersBySession[kind] : undefined;
+
+  if (!Adapter) {
+    throw new Error(
+      `Cannot detect the adapter for Drizzle session ${kind ?? "(unknown)"}. Pass one with drizzow(db, { adapter }).`,
+    );
+  }
+
+  return new Adapter(db);
+}
+
+/**
+ * Create a Unit of Work instance for any supported Drizzle database. The
+ * adapter is picked from the database's driver unless one is given.
+ */
+export function drizzow<TDatabase extends AnyDrizzleDB>(
+  db: TDatabase,
+  options: DrizzowOptions<TDatabase> = {},
+): CreateUowReturnType<TDatabase> {
+  const { adapter = createAdapter(db), ...uowOptions } = options;
+  // Create the UoW instance
+  return new UnitOfWork(db, adapter, uowOptions) as never;
+}
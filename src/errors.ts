@@ -0,0 +1,119 @@
+import type { ChangeSet } from "./types";
+
+/**
+ * Base class of the errors thrown by the unit of work
+ */
+export class DrizzowError extends Error {
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = "DrizzowError";
+  }
+}
+
+/**
+ * What a `SaveError` knows about the write that failed
+ */
+export interface SaveErrorDetails {
+  /** The driver's error */
+  cause?: unknown;
+  /** Key of the table the failing statement wrote to */
+  tableName?: string;
+  /** The failing changeset, when the statement wrote a single entity */
+  changeSet?: ChangeSet;
+  /** Primary key of `changeSet`'s entity */
+  primaryKey?: any;
+}
+
+/**
+ * Thrown by `save()` when its changes could not be written. The save is
+ * rolled back, and the driver's error is the `cause`.
+ */
+export class SaveError extends DrizzowError {
+  readonly tableName?: string;
+  readonly changeSet?: ChangeSet;
+  readonly primaryKey?: any;
+
+  constructor(message: string, details: SaveErrorDetails = {}) {
+    super(message, { cause: details.cause });
+    this.name = "SaveError";
+    this.tableName = details.tableName;
+    this.changeSet = details.changeSet;
+    this.primaryKey = details.primaryKey;
+  }
+}
+
+/**
+ * Thrown by `save()` when a row would duplicate the primary key or a unique
+ * column of another row
+ */
+export class UniqueConstraintError extends SaveError {
+  constructor(message: string, details?: SaveErrorDetails) {
+    super(message, details);
+    this.name = "UniqueConstraintError";
+  }
+}
+
+/**
+ * Thrown by `save()` when a row would reference a missing row, or a deleted
+ * row is still referenced
+ */
+export class ForeignKeyError extends SaveError {
+  constructor(message: string, details?: SaveErrorDetails) {
+    super(message, details);
+    this.name = "ForeignKeyError";
+  }
+}
+
+/**
+ * Thrown by `save()` when a NOT NULL column would be set to null
+ */
+export class NotNullError extends SaveError {
+  constructor(message: string, details?: SaveErrorDetails) {
+    super(message, details);
+    this.name = "NotNullError";
+  }
+}
+
+/**
+ * Thrown by `save()` when the rows of versioned entities were changed or
+ * deleted since they were loaded. The save is rolled back, so none of its
+ * changes are written.
+ */
+export class ConcurrencyConflictError extends SaveError {
+  /** Entities whose row no longer had the version they were loaded with */
+  readonly entities: any[];
+
+  constructor(message: string, entities: any[]) {
+    super(message);
+    this.name = "ConcurrencyConflictError";
+    this.entities = entities;
+  }
+}
+
+/**
+ * Thrown by `save(checkpoint)`, and reported by `rollback()`, for a
+ * checkpoint that was never set or was already saved or cleared
+ */
+export class CheckpointNotFoundError extends DrizzowError {
+  readonly checkpoint: number;
+
+  constructor(checkpoint: number) {
+    super(`Checkpoint ${checkpoint} not found`);
+    this.name = "CheckpointNotFoundError";
+    this.checkpoint = checkpoint;
+  }
+}
+
+/**
+ * Thrown by `save(checkpoint)`, and reported by `rollback()`, for a
+ * checkpoint before one already saved, or a save past one rolled back to
+ */
+export class CheckpointOrderError extends DrizzowError {
+  readonly checkpoint: number;
+
+  constructor(message: string, checkpoint: number) {
+    super(message);
+    this.name = "CheckpointOrderError";
+    this.checkpoint = checkpoint;
+  }
+}
@@ -0,0 +1,390 @@
+import { describe, it, expect, beforeEach } from "bun:test";
+import { relations, sql } from "drizzle-orm";
+import { drizzle as drizzleProxy } from "drizzle-orm/sqlite-proxy";
+import { drizzle as drizzleNodePostgres } from "drizzle-orm/node-postgres";
+import { drizzle as drizzleMySql2 } from "drizzle-orm/mysql2";
+import {
+  integer,
+  primaryKey,
+  sqliteTable,
+  text,
+} from "drizzle-orm/sqlite-core";
+import { pgTable, serial, text as pgText } from "drizzle-orm/pg-core";
+import { int, mysqlTable, varchar } from "drizzle-orm/mysql-core";
+import {
+  ConcurrencyConflictError,
+  NotNullError,
+  UniqueConstraintError,
+} from "../errors";
+import { InMemoryAdapter } from "./adapter";
+import { drizzow } from "./index";
+
+// Test schema
+const users = sqliteTable("users", {
+  id: integer().primaryKey({ autoIncrement: true }),
+  name: text().notNull(),
+  role: text().notNull().default("member"),
+  token: text()
+    .notNull()
+    .$defaultFn(() => "generated-token"),
+});
+
+const posts = sqliteTable("posts", {
+  id: integer().primaryKey(),
+  userId: integer("user_id")
+    .notNull()
+    .references(() => users.id),
+  title: text().notNull(),
+});
+
+const memberships = sqliteTable(
+  "memberships",
+  {
+    orgId: integer("org_id").notNull(),
+    userId: integer("user_id").notNull(),
+    role: text().notNull(),
+  },
+  (t) => [primaryKey({ columns: [t.orgId, t.userId] })],
+);
+
+const events = sqliteTable("events", {
+  id: integer().primaryKey(),
+  createdAt: integer("created_at")
+    .notNull()
+    .default(sql`(unixepoch())`),
+});
+
+const usersRelations = relations(users, ({ many }) => ({
+  posts: many(posts),
+}));
+
+const postsRelations = relations(posts, ({ one }) => ({
+  author: one(users, { fields: [posts.userId], references: [users.id] }),
+}));
+
+const schema = {
+  users,
+  posts,
+  memberships,
+  events,
+  usersRelations,
+  postsRelations,
+};
+
+function createDb() {
+  return drizzleProxy(
+    async () => {
+      throw new Error("The in-memory adapter must not query the database");
+    },
+    { schema },
+  );
+}
+
+describe("InMemoryAdapter", () => {
+  let db: ReturnType<typeof createDb>;
+  let adapter: InMemoryAdapter;
+
+  beforeEach(async () => {
+    db = createDb();
+    adapter = new InMemoryAdapter(db);
+    await adapter.executeInsert(users, [
+      { id: 1, name: "alice" },
+      { id: 2, name: "bob", role: "admin" },
+    ]);
+    await adapter.executeInsert(posts, [
+      { id: 1, userId: 1, title: "First" },
+      { id: 2, userId: 1, title: "Second" },
+    ]);
+  });
+
+  it("should take its database type from the Drizzle database", () => {
+    expect(adapter.getDatabaseType()).toBe("sqlite");
+    expect(
+      new InMemoryAdapter(drizzleNodePostgres.mock()).getDatabaseType(),
+    ).toBe("postgres");
+  });
+
+  it("should find stored rows by primary key", async () => {
+    const uow = drizzow(db, { adapter });
+
+    const alice = await uow.users.find({ id: 1 });
+    const many = await uow.users.find({ id: [1, 2, 3] });
+
+    expect(alice).toEqual({
+      id: 1,
+      name: "alice",
+      role: "member",
+      token: "generated-token",
+    });
+    expect(many.map((user) => user.name)).toEqual(["alice", "bob"]);
+  });
+
+  it("should save created, modified and deleted entities", async () => {
+    const uow = drizzow(db, { adapter });
+    const alice = (await uow.users.find({ id: 1 }))!;
+    alice.name = "alice cooper";
+    uow.users.delete((await uow.users.find({ id: 2 }))!);
+    uow.users.create({ id: 3, name: "carol" });
+
+    await uow.save();
+
+    expect(adapter.getRows(users).map((user) => [user.id, user.name])).toEqual(
+      [
+        [1, "alice cooper"],
+        [3, "carol"],
+      ],
+    );
+  });
+
+  it("should not change stored rows until saved", async () => {
+    const uow = drizzow(db, { adapter });
+    const alice = (await uow.users.find({ id: 1 }))!;
+    alice.name = "changed";
+
+    expect(adapter.getRows(users)[0]!.name).toBe("alice");
+  });
+
+  it("should assign generated keys and defaults", async () => {
+    const uow = drizzow(db, { adapter });
+    const carol = uow.users.create({ name: "carol" });
+    const dave = uow.users.create({ name: "dave" });
+
+    await uow.save();
+
+    expect(carol).toMatchObject({ id: 3, role: "member" });
+    expect(dave.id).toBe(4);
+    expect(adapter.getRows(users)[3]).toEqual({
+      id: 4,
+      name: "dave",
+      role: "member",
+      token: "generated-token",
+    });
+  });
+
+  it("should replace the rows of a table", async () => {
+    adapter.setRows(users, [{ id: 5, name: "carol" }]);
+    expect(adapter.getRows(users).map((user) => [user.id, user.name])).toEqual(
+      [[5, "carol"]],
+    );
+
+    adapter.setRows(users, []);
+    adapter.setRows(users, [{ name: "dave" }]);
+    expect(adapter.getRows(users)[0]!.id).toBe(1);
+  });
+
+  it("should reject duplicate primary keys", async () => {
+    const uow = drizzow(db, { adapter });
+    uow.users.create({ id: 1, name: "duplicate" });
+
+    await expect(uow.save()).rejects.toThrow(
+      "UNIQUE constraint failed: users.id",
+    );
+    await expect(uow.save()).rejects.toBeInstanceOf(UniqueConstraintError);
+  });
+
+  it("should reject null values in NOT NULL columns", async () => {
+    const uow = drizzow(db, { adapter });
+    const alice = (await uow.users.find({ id: 1 }))!;
+    alice.name = null as any;
+
+    await expect(uow.save()).rejects.toThrow(
+      "NOT NULL constraint failed: users.name",
+    );
+    await expect(uow.save()).rejects.toBeInstanceOf(NotNullError);
+  });
+
+  it("should reject defaults it cannot evaluate", async () => {
+    const uow = drizzow(db, { adapter });
+    uow.events.create({ id: 1 });
+
+    await expect(uow.save()).rejects.toThrow(
+      "Cannot evaluate the SQL default of events.created_at in memory",
+    );
+  });
+
+  it("should keep the rows of a failed save unchanged", async () => {
+    const uow = drizzow(db, { adapter });
+    uow.users.create({ id: 3, name: "carol" });
+    uow.posts.create({ id: 3, userId: 1, title: "Third" });
+    // Updates run after the inserts
+    const alice = (await uow.users.find({ id: 1 }))!;
+    alice.name = null as any;
+
+    await expect(uow.save()).rejects.toThrow("NOT NULL constraint failed");
+
+    expect(adapter.getRows(users).map((user) => user.name)).toEqual([
+      "alice",
+      "bob",
+    ]);
+    expect(adapter.getRows(posts)).toHaveLength(2);
+  });
+
+  it("should overwrite or skip existing rows on conflict", async () => {
+    const uow = drizzow(db, { adapter });
+    uow.users.upsert({ id: 1, name: "alice cooper" });
+    uow.users.create({ id: 2, name: "robert" }, { onConflict: "ignore" });
+    uow.users.upsert({ id: 3, name: "carol" });
+
+    await uow.save();
+
+    expect(adapter.getRows(users)).toEqual([
+      { id: 1, name: "alice cooper", role: "member", token: "generated-token" },
+      { id: 2, name: "bob", role: "admin", token: "generated-token" },
+      { id: 3, name: "carol", role: "member", token: "generated-token" },
+    ]);
+  });
+
+  it("should run bulk updates and deletes", async () => {
+    const uow = drizzow(db, { adapter });
+    uow.users.updateWhere((user, { eq }) => eq(user.role, "member"), {
+      role: "guest",
+    });
+    uow.posts.deleteWhere((post, { eq }) => eq(post.id, 1));
+
+    await uow.save();
+
+    expect(adapter.getRows(users).map((user) => user.role)).toEqual([
+      "guest",
+      "admin",
+    ]);
+    expect(adapter.getRows(posts).map((post) => post.id)).toEqual([2]);
+  });
+
+  it("should reject changes to rows at another version", async () => {
+    const options = {
+      adapter,
+      versionColumns: { events: "createdAt" },
+    } as const;
+    const uow = drizzow(db, options);
+    uow.events.create({ id: 1 });
+    await uow.save();
+
+    const stale = drizzow(db, options);
+    stale.events.delete(stale.events.attach({ id: 1, createdAt: 5 }));
+    await expect(stale.save()).rejects.toBeInstanceOf(
+      ConcurrencyConflictError,
+    );
+    expect(adapter.getRows(events)).toEqual([{ id: 1, createdAt: 1 }]);
+
+    const current = drizzow(db, options);
+    current.events.delete(current.events.attach({ id: 1, createdAt: 1 }));
+    await current.save();
+    expect(adapter.getRows(events)).toHaveLength(0);
+  });
+
+  it("should filter, order and limit findMany queries", async () => {
+    const uow = drizzow(db, { adapter });
+
+    const result = await uow.posts.findMany({
+      where: (post, { eq }) => eq(post.userId, 1),
+      orderBy: (post, { desc }) => desc(post.id),
+      limit: 1,
+    });
+
+    expect(result.map((post) => post.title)).toEqual(["Second"]);
+  });
+
+  it("should reject raw SQL filters", async () => {
+    const uow = drizzow(db, { adapter });
+
+    await expect(
+      uow.posts.findMany({ where: sql`${posts.userId} = 1` }),
+    ).rejects.toThrow("Cannot evaluate the filter for 'posts' in memory");
+  });
+
+  it("should load relations", async () => {
+    const uow = drizzow(db, { adapter });
+
+    const alice = await uow.users.find({ id: 1 }, { with: { posts: true } });
+    const post = await uow.posts.find({ id: 2 }, { with: { author: true } });
+
+    expect(alice!.posts.map((p) => p.title)).toEqual(["First", "Second"]);
+    expect(post!.author.name).toBe("alice");
+  });
+
+  it("should store rows of tables with composite keys", async () => {
+    const uow = drizzow(db, { adapter });
+    uow.memberships.create({ orgId: 1, userId: 1, role: "owner" });
+    uow.memberships.create({ orgId: 1, userId: 2, role: "member" });
+    await uow.save();
+
+    const next = drizzow(db, { adapter });
+    const member = (await next.memberships.find({ orgId: 1, userId: 2 }))!;
+    member.role = "admin";
+    next.memberships.delete(
+      (await next.memberships.find({ orgId: 1, userId: 1 }))!,
+    );
+    await next.save();
+
+    expect(adapter.getRows(memberships)).toEqual([
+      { orgId: 1, userId: 2, role: "admin" },
+    ]);
+  });
+
+  it("should save changes up to a checkpoint", async () => {
+    const uow = drizzow(db, { adapter });
+    const alice = (await uow.users.find({ id: 1 }))!;
+    alice.name = "first";
+    const checkpoint = uow.setCheckpoint();
+    alice.name = "second";
+
+    await uow.save(checkpoint);
+    expect(adapter.getRows(users)[0]!.name).toBe("first");
+
+    await uow.save();
+    expect(adapter.getRows(users)[0]!.name).toBe("second");
+  });
+
+  it("should roll back to savepoints", async () => {
+    const uow = drizzow(db, { adapter });
+    const alice = (await uow.users.find({ id: 1 }))!;
+    alice.name = "first";
+    const checkpoint = await uow.setCheckpoint({ savepoint: true });
+    alice.name = "second";
+    uow.users.delete((await uow.users.find({ id: 2 }))!);
+    await uow.setCheckpoint({ savepoint: true });
+    expect(adapter.getRows(users).map((user) => user.name)).toEqual(["second"]);
+
+    await uow.rollback(checkpoint);
+
+    expect(adapter.getRows(users).map((user) => user.name)).toEqual([
+      "first",
+      "bob",
+    ]);
+    await uow.save();
+    expect(adapter.getRows(users)).toHaveLength(2);
+  });
+
+  it("should generate serial keys for Postgres tables", async () => {
+    const accounts = pgTable("accounts", {
+      id: serial().primaryKey(),
+      name: pgText().notNull(),
+    });
+    const pgDb = drizzleNodePostgres.mock({ schema: { accounts } });
+    const uow = drizzow(pgDb);
+
+    const first = uow.accounts.create({ name: "first" });
+    const second = uow.accounts.create({ name: "second" });
+    await uow.save();
+
+    expect([first.id, second.id]).toEqual([1, 2]);
+  });
+
+  it("should generate auto-increment keys for MySQL tables", async () => {
+    const accounts = mysqlTable("accounts", {
+      id: int().primaryKey().autoincrement(),
+      name: varchar({ length: 255 }).notNull(),
+    });
+    const mysqlDb = drizzleMySql2.mock({
+      schema: { accounts },
+      mode: "default",
+    });
+    const uow = drizzow(mysqlDb);
+
+    const first = uow.accounts.create({ name: "first" });
+    const second = uow.accounts.create({ name: "second" });
+    await uow.save();
+
+    expect([first.id, second.id]).toEqual([1, 2]);
+  });
+});
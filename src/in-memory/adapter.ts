@@ -0,0 +1,535 @@
+import {
+  getTableColumns,
+  getTableName,
+  is,
+  normalizeRelation,
+  One,
+  SQL,
+  type Column,
+  type Table,
+} from "drizzle-orm";
+import {
+  BaseSQLiteDatabase,
+  SQLiteBaseInteger,
+  SQLiteInteger,
+  SQLiteTable,
+  getTableConfig as getSQLiteTableConfig,
+} from "drizzle-orm/sqlite-core";
+import {
+  PgBigSerial53,
+  PgBigSerial64,
+  PgDatabase,
+  PgSerial,
+  PgSmallSerial,
+  PgTable,
+  getTableConfig as getPgTableConfig,
+} from "drizzle-orm/pg-core";
+import {
+  MySqlColumnWithAutoIncrement,
+  MySqlTable,
+  getTableConfig as getMySqlTableConfig,
+} from "drizzle-orm/mysql-core";
+import { BaseDatabaseAdapter } from "../base-adapter";
+import { QueryEvaluator } from "../query-evaluator";
+import type {
+  AnyDrizzleDB,
+  BulkOperation,
+  ChangeSet,
+  ConflictAction,
+  ConstraintViolation,
+  FindManyQuery,
+  ForeignKeyReference,
+} from "../types";
+
+type Rows = Map<string, Record<string, any>>;
+
+/**
+ * Adapter keeping rows in memory instead of a database, for unit tests of
+ * code using a unit of work.
+ *
+ * Rows are stored per table, keyed by primary key. Saves enforce primary key
+ * uniqueness and NOT NULL columns, assign keys of auto-increment, serial and
+ * identity columns, and apply static and `$defaultFn` defaults. A failed save
+ * leaves the rows as they were, and savepoints keep a copy of the rows to roll
+ * back to. Foreign keys and unique indexes are not checked. Locking finds
+ * take no locks, as no other connection can change the rows.
+ *
+ * Queries support the callback form of `where` and `orderBy` (see
+ * `QueryEvaluator`), `limit` and `with`. Raw SQL filters are rejected.
+ *
+ * The database is only used for its schema, so one that never connects works,
+ * e.g. `drizzle.mock({ schema })` from `drizzle-orm/node-postgres`.
+ */
+export class InMemoryAdapter extends BaseDatabaseAdapter {
+  private tables = new Map<Table, Rows>();
+  private savepointTables = new Map<string, Map<Table, Rows>>();
+  private nextKeys = new Map<Table, number>();
+  private queryEvaluator = new QueryEvaluator(this.getDatabaseType());
+
+  constructor(db: AnyDrizzleDB) {
+    super(db);
+  }
+
+  override getDatabaseType(): "sqlite" | "postgres" | "mysql" {
+    if (is(this.db, BaseSQLiteDatabase)) return "sqlite";
+    if (is(this.db, PgDatabase)) return "postgres";
+    return "mysql";
+  }
+
+  /**
+   * Get a copy of every row stored in a table
+   */
+  getRows(table: Table): Record<string, any>[] {
+    return [...this.getTable(table).values()].map((row) =>
+      structuredClone(row),
+    );
+  }
+
+  /**
+   * Replace every row stored in a table, filling in defaults and generated
+   * keys as if the rows were inserted into a new table
+   */
+  setRows(table: Table, rows: Record<string, any>[]) {
+    this.tables.set(table, new Map());
+    this.nextKeys.delete(table);
+    for (const row of rows) {
+      this.insertRow(table, row);
+    }
+  }
+
+  override async beginTransaction(): Promise<any> {
+    return this.copyTables(this.tables);
+  }
+
+  override async commitTransaction(_tx: any): Promise<void> {}
+
+  override async rollbackTransaction(tx: Map<Table, Rows>): Promise<void> {
+    this.tables = tx;
+  }
+
+  override async executeInsert(table: Table, values: any[]): Promise<void> {
+    for (const value of values) {
+      this.insertRow(table, value);
+    }
+  }
+
+  override async executeUpdate(
+    table: Table,
+    id: any,
+    changes: Record<string, any>,
+  ): Promise<void> {
+    this.updateRow(table, id, changes);
+  }
+
+  override async executeDelete(table: Table, id: any): Promise<void> {
+    this.getTable(table).delete(this.serializeKey(id));
+  }
+
+  override async findByPrimaryKeys(
+    table: Table,
+    primaryKeys: any[],
+    withConfig?: Record<string, any>,
+  ): Promise<any[]> {
+    const rows = this.getTable(table);
+    const found = primaryKeys
+      .map((primaryKey) => rows.get(this.serializeKey(primaryKey)))
+      .filter((row) => row !== undefined);
+
+    return found.map((row) => this.toResult(table, row, withConfig));
+  }
+
+  override async findMany(
+    table: Table,
+    config: FindManyQuery,
+  ): Promise<any[]> {
+    return this.queryRows(table, [...this.getTable(table).values()], config);
+  }
+
+  protected override async executeSavepoint(
+    _tx: any,
+    name: string,
+  ): Promise<void> {
+    this.savepointTables.set(name, this.copyTables(this.tables));
+  }
+
+  protected override async executeRollbackToSavepoint(
+    _tx: any,
+    name: string,
+  ): Promise<void> {
+    this.tables = this.copyTables(this.savepointTables.get(name)!);
+  }
+
+  /**
+   * The violations this adapter raises itself, worded like SQLite's
+   */
+  protected override getConstraintViolation(
+    error: unknown,
+  ): ConstraintViolation | null {
+    const message = error instanceof Error ? error.message : "";
+    if (message.startsWith("UNIQUE constraint failed")) return "unique";
+    if (message.startsWith("NOT NULL constraint failed")) return "notNull";
+    return null;
+  }
+
+  protected override async insertChangeSets(
+    _tx: any,
+    table: Table,
+    changeSets: ChangeSet[],
+  ): Promise<void> {
+    for (const changeSet of changeSets) {
+      const row = this.insertRow(table, changeSet.entity);
+
+      if (
+        !this.isPrimaryKeyComplete(
+          this.extractPrimaryKeyValue(table, changeSet.entity),
+        )
+      ) {
+        changeSet.generatedValues = this.pickGeneratedValues(
+          changeSet.entity,
+          row,
+        );
+      }
+    }
+  }
+
+  protected override async upsertChangeSets(
+    _tx: any,
+    table: Table,
+    onConflict: ConflictAction,
+    columnKeys: string[],
+    changeSets: ChangeSet[],
+  ): Promise<void> {
+    const rows = this.getTable(table);
+    const primaryKeyColumns = this.getPrimaryKeyColumns(table);
+
+    for (const changeSet of changeSets) {
+      const primaryKey = this.extractPrimaryKeyValue(table, changeSet.entity);
+      if (!rows.has(this.serializeKey(primaryKey))) {
+        this.insertRow(table, changeSet.entity);
+      } else if (onConflict === "update") {
+        this.updateRow(
+          table,
+          primaryKey,
+          Object.fromEntries(
+            columnKeys
+              .filter((key) => !(key in primaryKeyColumns))
+              .map((key) => [key, changeSet.entity[key]]),
+          ),
+        );
+      }
+    }
+  }
+
+  protected override async updateChangeSets(
+    _tx: any,
+    table: Table,
+    _columnKeys: string[],
+    changeSets: ChangeSet[],
+  ): Promise<void> {
+    for (const changeSet of changeSets) {
+      if (!this.hasExpectedVersion(table, changeSet)) continue;
+
+      this.updateRow(
+        table,
+        this.extractPrimaryKeyValue(table, changeSet.entity),
+        this.buildUpdateChanges(changeSet),
+      );
+    }
+  }
+
+  protected override async deleteChangeSets(
+    _tx: any,
+    table: Table,
+    changeSets: ChangeSet[],
+  ): Promise<void> {
+    for (const changeSet of changeSets) {
+      if (!this.hasExpectedVersion(table, changeSet)) continue;
+
+      await this.executeDelete(
+        table,
+        this.extractPrimaryKeyValue(table, changeSet.entity),
+      );
+    }
+  }
+
+  /**
+   * Check that the row of a versioned entity still has the expected version,
+   * flagging the changeset with `versionConflict` if not
+   */
+  private hasExpectedVersion(table: Table, changeSet: ChangeSet): boolean {
+    if (!changeSet.version) return true;
+
+    const { key, value } = changeSet.version;
+    const row = this.getTable(table).get(
+      this.serializeKey(this.extractPrimaryKeyValue(table, changeSet.entity)),
+    );
+    const stored = row?.[key];
+    if (
+      row &&
+      (stored instanceof Date && value instanceof Date
+        ? stored.getTime() === value.getTime()
+        : stored === value)
+    ) {
+      return true;
+    }
+
+    changeSet.versionConflict = true;
+    return false;
+  }
+
+  protected override async executeBulkOperation(
+    _tx: any,
+    operation: BulkOperation,
+  ): Promise<void> {
+    const table = this.getTableFromName(operation.tableName);
+    const matchesWhere = this.queryEvaluator.compileWhere(
+      operation.where,
+      table,
+    );
+    if (!matchesWhere) {
+      throw new Error(
+        `Cannot evaluate the filter for '${operation.tableName}' in memory. ` +
+          `Build 'where' with the operators passed to its callback.`,
+      );
+    }
+
+    const rows = this.getTable(table);
+    for (const [key, row] of [...rows]) {
+      if (!matchesWhere(row)) continue;
+
+      if (operation.type === "delete") {
+        rows.delete(key);
+      } else {
+        this.updateRow(
+          table,
+          this.extractPrimaryKeyValue(table, row),
+          operation.changes!,
+        );
+      }
+    }
+  }
+
+  protected override getCompositePrimaryKeyColumns(table: Table): Column[] {
+    return this.getTableConfig(table).primaryKeys.flatMap(
+      (primaryKey) => primaryKey.columns,
+    );
+  }
+
+  protected override getForeignKeys(table: Table): ForeignKeyReference[] {
+    return this.getTableConfig(table).foreignKeys.map((foreignKey) =>
+      foreignKey.reference(),
+    );
+  }
+
+  private getTableConfig(table: Table): {
+    primaryKeys: { columns: Column[] }[];
+    foreignKeys: { reference(): ForeignKeyReference }[];
+  } {
+    if (is(table, SQLiteTable)) return getSQLiteTableConfig(table);
+    if (is(table, PgTable)) return getPgTableConfig(table);
+    return getMySqlTableConfig(table as MySqlTable);
+  }
+
+  private getTable(table: Table): Rows {
+    let rows = this.tables.get(table);
+    if (!rows) {
+      rows = new Map();
+      this.tables.set(table, rows);
+    }
+
+    return rows;
+  }
+
+  /**
+   * Store a new row filled in with defaults and generated keys
+   */
+  private insertRow(table: Table, values: Record<string, any>) {
+    const row: Record<string, any> = {};
+    for (const [key, column] of Object.entries(getTableColumns(table))) {
+      row[key] =
+        values[key] === undefined
+          ? this.getDefaultValue(table, column)
+          : values[key];
+    }
+
+    this.assertNotNull(table, row);
+
+    const primaryKey = this.extractPrimaryKeyValue(table, row);
+    const rows = this.getTable(table);
+    const key = this.serializeKey(primaryKey);
+    if (rows.has(key)) {
+      throw new Error(
+        `UNIQUE constraint failed: ${this.describeColumns(table, Object.values(this.getPrimaryKeyColumns(table)))}`,
+      );
+    }
+
+    if (typeof primaryKey === "number" || typeof primaryKey === "bigint") {
+      this.nextKeys.set(
+        table,
+        Math.max(this.nextKeys.get(table) ?? 1, Number(primaryKey) + 1),
+      );
+    }
+
+    rows.set(key, structuredClone(row));
+    return row;
+  }
+
+  private updateRow(table: Table, id: any, changes: Record<string, any>) {
+    const rows = this.getTable(table);
+    const key = this.serializeKey(id);
+    const row = rows.get(key);
+    if (!row) return;
+
+    const updated = { ...row, ...structuredClone(changes) };
+    this.assertNotNull(table, updated);
+    rows.set(key, updated);
+  }
+
+  private getDefaultValue(table: Table, column: Column): any {
+    const primaryKeyColumns = Object.values(this.getPrimaryKeyColumns(table));
+    if (
+      primaryKeyColumns.length === 1 &&
+      primaryKeyColumns[0] === column &&
+      this.isGeneratedKey(column)
+    ) {
+      const next = this.nextKeys.get(table) ?? 1;
+      return column.dataType === "bigint" ? BigInt(next) : next;
+    }
+
+    if (column.defaultFn) {
+      return column.defaultFn();
+    }
+
+    if (is(column.default, SQL)) {
+      throw new Error(
+        `Cannot evaluate the SQL default of ${this.describeColumns(table, [column])} in memory. Set a value or use $defaultFn.`,
+      );
+    }
+
+    return column.default ?? null;
+  }
+
+  /**
+   * Columns whose value the database generates when a row is inserted
+   * without one: SQLite integer keys (rowid aliases), auto-increment, serial
+   * and identity columns
+   */
+  private isGeneratedKey(column: Column): boolean {
+    return (
+      is(column, SQLiteInteger) ||
+      is(column, PgSerial) ||
+      is(column, PgSmallSerial) ||
+      is(column, PgBigSerial53) ||
+      is(column, PgBigSerial64) ||
+      column.generatedIdentity !== undefined ||
+      (is(column, SQLiteBaseInteger) && column.autoIncrement) ||
+      (is(column, MySqlColumnWithAutoIncrement) && column.autoIncrement)
+    );
+  }
+
+  private copyTables(tables: Map<Table, Rows>): Map<Table, Rows> {
+    return new Map([...tables].map(([table, rows]) => [table, new Map(rows)]));
+  }
+
+  private assertNotNull(table: Table, row: Record<string, any>) {
+    for (const [key, column] of Object.entries(getTableColumns(table))) {
+      if (column.notNull && (row[key] === null || row[key] === undefined)) {
+        throw new Error(
+          `NOT NULL constraint failed: ${this.describeColumns(table, [column])}`,
+        );
+      }
+    }
+  }
+
+  private describeColumns(table: Table, columns: Column[]): string {
+    return columns
+      .map((column) => `${getTableName(table)}.${column.name}`)
+      .join(", ");
+  }
+
+  private queryRows(
+    table: Table,
+    rows: Record<string, any>[],
+    config: FindManyQuery,
+  ): any[] {
+    const matchesWhere = this.queryEvaluator.compileWhere(config.where, table);
+    const compareOrder = this.queryEvaluator.compileOrderBy(
+      config.orderBy,
+      table,
+    );
+    if (!matchesWhere || !compareOrder) {
+      throw new Error(
+        `Cannot evaluate the filter for '${this.getTableKey(table)}' in memory. ` +
+          `Build 'where' and 'orderBy' with the operators passed to their callbacks.`,
+      );
+    }
+
+    const results = rows.filter(matchesWhere).sort(compareOrder);
+    const limited =
+      config.limit === undefined ? results : results.slice(0, config.limit);
+
+    return limited.map((row) => this.toResult(table, row, config.with));
+  }
+
+  /**
+   * Copy a stored row and load the relations in `withConfig` onto it
+   */
+  private toResult(
+    table: Table,
+    row: Record<string, any>,
+    withConfig: Record<string, any> = {},
+  ): any {
+    const result = structuredClone(row);
+    const tableKey = this.getTableKey(table);
+    const relations = this.getTableRelationalConfig(tableKey).relations;
+
+    for (const [name, relationConfig] of Object.entries(withConfig)) {
+      if (!relationConfig) continue;
+
+      const relation = relations[name];
+      if (!relation) {
+        throw new Error(`Relation '${name}' not found on table '${tableKey}'`);
+      }
+
+      const { fields, references } = normalizeRelation(
+        this.tablesRelationalConfig,
+        this.tableNamesMap,
+        relation,
+      );
+      const sourceKeys = this.getColumnKeys(table, fields);
+      const referencedKeys = this.getColumnKeys(
+        relation.referencedTable,
+        references,
+      );
+      const related = [
+        ...this.getTable(relation.referencedTable).values(),
+      ].filter((candidate) =>
+        referencedKeys.every(
+          (key, index) => candidate[key] === row[sourceKeys[index]!],
+        ),
+      );
+
+      const loaded = this.queryRows(
+        relation.referencedTable,
+        related,
+        relationConfig === true ? {} : relationConfig,
+      );
+      result[name] = is(relation, One) ? (loaded[0] ?? null) : loaded;
+    }
+
+    return result;
+  }
+
+  private getColumnKeys(table: Table, columns: Column[]): string[] {
+    const entries = Object.entries(getTableColumns(table));
+    return columns.map(
+      (column) => entries.find(([, candidate]) => candidate === column)![0],
+    );
+  }
+
+  private serializeKey(primaryKey: any): string {
+    return Array.isArray(primaryKey)
+      ? JSON.stringify(primaryKey)
+      : String(primaryKey);
+  }
+}
@@ -0,0 +1,25 @@
+import { UnitOfWork } from "../uow";
+import type {
+  UnitOfWorkOptions,
+  UnitOfWorkRepos,
+  AnyDrizzleDB,
+} from "../types";
+import { InMemoryAdapter } from "./adapter";
+
+export { InMemoryAdapter } from "./adapter";
+
+export type CreateUowReturnType<TDatabase extends AnyDrizzleDB> =
+  UnitOfWork<TDatabase> & UnitOfWorkRepos<TDatabase>;
+
+/**
+ * Create a Unit of Work instance storing rows in memory. The adapter can be
+ * shared between units of work to keep their rows.
+ */
+export function drizzow<TDatabase extends AnyDrizzleDB>(
+  db: TDatabase,
+  options: UnitOfWorkOptions<TDatabase> & { adapter?: InMemoryAdapter } = {},
+): CreateUowReturnType<TDatabase> {
+  const { adapter = new InMemoryAdapter(db), ...uowOptions } = options;
+  // Create the UoW instance
+  return new UnitOfWork(db, adapter, uowOptions) as never;
+}
@@ -1,6 +1,23 @@
 // Re-export types for convenience
 export type * from "./types";
 
+// Generic entry point detecting the driver
+export { drizzow, createAdapter } from "./drizzow";
+export type { CreateUowReturnType, DrizzowOptions } from "./drizzow";
+
+// Errors thrown by save() and reported by rollback()
+export {
+  CheckpointNotFoundError,
+  CheckpointOrderError,
+  ConcurrencyConflictError,
+  DrizzowError,
+  ForeignKeyError,
+  NotNullError,
+  SaveError,
+  UniqueConstraintError,
+  type SaveErrorDetails,
+} from "./errors";
+
 // Re-export core classes for advanced usage
 export { UnitOfWork } from "./uow";
 export { IdentityMap } from "./identity-map";
@@ -8,6 +25,20 @@ export { ChangeTracker } from "./change-tracker";
 export { ProxyManager } from "./proxy";
 export { CheckpointManager } from "./checkpoint-manager";
 
+// Re-export adapter base classes for custom adapters
+export { BaseDatabaseAdapter } from "./base-adapter";
+export { SqliteAdapter } from "./sqlite-core/adapter";
+export { PostgresAdapter } from "./pg-core/adapter";
+export { MySqlAdapter } from "./mysql-core/adapter";
+
 // Re-export database adapters
 export { BunSQLiteAdapter } from "./bun-sqlite";
+export { BetterSQLite3Adapter } from "./better-sqlite3";
+export { NodeSqliteAdapter } from "./node-sqlite";
+export { LibSQLAdapter } from "./libsql";
 export { NodePostgresAdapter } from "./node-postgres";
+export { PostgresJsAdapter } from "./postgres-js";
+export { BunSQLAdapter } from "./bun-sql";
+export { PgliteAdapter } from "./pglite";
+export { MySql2Adapter } from "./mysql2";
+export { InMemoryAdapter } from "./in-memory";
@@ -0,0 +1,144 @@
+import { describe, it, expect, beforeEach, afterEach, spyOn } from "bun:test";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { createClient, type Client } from "@libsql/client";
+import { eq } from "drizzle-orm";
+import { drizzle, type LibSQLDatabase } from "drizzle-orm/libsql";
+import { LibSQLAdapter } from "./adapter";
+import { drizzow } from "./index";
+import {
+  describeSqliteAdapter,
+  sqliteSuiteSchema,
+} from "../sqlite-core/adapter-suite";
+
+function createFileClient() {
+  const directory = mkdtempSync(join(tmpdir(), "drizzow-libsql-"));
+  const client = createClient({ url: `file:${join(directory, "test.db")}` });
+  return {
+    client,
+    close() {
+      client.close();
+      rmSync(directory, { recursive: true, force: true });
+    },
+  };
+}
+
+describeSqliteAdapter("LibSQLAdapter", (schema) => {
+  const { client, close } = createFileClient();
+  const db = drizzle(client, { schema });
+
+  return {
+    db,
+    adapter: new LibSQLAdapter(db),
+    exec: (query) => client.executeMultiple(query),
+    close,
+  };
+});
+
+describe("LibSQLAdapter batching", () => {
+  const { users, posts } = sqliteSuiteSchema;
+  let connection: ReturnType<typeof createFileClient>;
+  let client: Client;
+  let db: LibSQLDatabase<typeof sqliteSuiteSchema>;
+
+  beforeEach(async () => {
+    connection = createFileClient();
+    client = connection.client;
+    db = drizzle(client, { schema: sqliteSuiteSchema });
+
+    await client.executeMultiple(`
+      CREATE TABLE test_users (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL,
+        email TEXT NOT NULL,
+        age INTEGER
+      );
+
+      CREATE TABLE test_posts (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        title TEXT NOT NULL,
+        content TEXT,
+        user_id INTEGER NOT NULL
+      );
+    `);
+  });
+
+  afterEach(() => {
+    connection.close();
+  });
+
+  it("should send a whole flush as one batch", async () => {
+    await db.insert(users).values([
+      { name: "Alice", email: "alice@example.com", age: 30 },
+      { name: "Bob", email: "bob@example.com", age: 40 },
+    ]);
+    await db.insert(posts).values({ title: "Draft", userId: 1 });
+
+    const uow = drizzow(db);
+    const [alice, bob] = await uow.users.findMany();
+    alice!.age = 31;
+    bob!.age = 41;
+    uow.posts.delete((await uow.posts.find({ id: 1 }))!);
+    const carol = uow.users.create({
+      name: "Carol",
+      email: "carol@example.com",
+    });
+    uow.posts.create({ title: "Hello", userId: 1 });
+
+    const batch = spyOn(client, "batch");
+    const execute = spyOn(client, "execute");
+
+    await uow.save();
+
+    expect(batch).toHaveBeenCalledTimes(1);
+    expect(execute).not.toHaveBeenCalled();
+    // Generated keys are read from the batch results
+    expect(carol.id).toBe(3);
+
+    const rows = await db.select().from(users);
+    expect(rows.map((row) => row.age)).toEqual([31, 41, null]);
+    expect(await db.select().from(posts)).toHaveLength(1);
+  });
+
+  it("should not apply any statement of a failing batch", async () => {
+    await db
+      .insert(users)
+      .values({ id: 1, name: "Alice", email: "alice@example.com" });
+
+    const uow = drizzow(db);
+    uow.posts.create({ title: "Hello", userId: 1 });
+    uow.users.create({ id: 1, name: "Duplicate", email: "dup@example.com" });
+
+    await expect(uow.save()).rejects.toThrow();
+
+    expect(await db.select().from(posts)).toHaveLength(0);
+    expect(await db.select().from(users)).toHaveLength(1);
+  });
+
+  it("should run flushes of versioned entities in a transaction", async () => {
+    await db.insert(users).values([
+      { id: 1, name: "Alice", email: "alice@example.com", age: 1 },
+      { id: 2, name: "Bob", email: "bob@example.com", age: 1 },
+    ]);
+    await db.update(users).set({ age: 2 }).where(eq(users.id, 2));
+
+    const uow = drizzow(db, { versionColumns: { users: "age" } });
+    uow.users.attach({ id: 1, age: 1 }).name = "Alice Cooper";
+    uow.users.attach({ id: 2, age: 1 }).name = "Robert";
+    uow.posts.create({ title: "Hello", userId: 1 });
+
+    const batch = spyOn(client, "batch");
+
+    await expect(uow.save()).rejects.toThrow(
+      "Rows were changed or deleted since they were loaded: users 2",
+    );
+
+    expect(batch).not.toHaveBeenCalled();
+    expect((await db.select().from(users)).map((row) => row.name)).toEqual([
+      "Alice",
+      "Bob",
+    ]);
+    expect(await db.select().from(posts)).toHaveLength(0);
+  });
+});
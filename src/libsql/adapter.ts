@@ -0,0 +1,117 @@
+import { is, SQL, type Table } from "drizzle-orm";
+import type { BatchItem } from "drizzle-orm/batch";
+import type { LibSQLDatabase } from "drizzle-orm/libsql";
+import { SqliteAdapter } from "../sqlite-core/adapter";
+import type { ChangeSet, SessionOptions, SessionTransaction } from "../types";
+
+interface BatchStatement {
+  query: BatchItem<"sqlite">;
+  onResult?: (result: any) => void;
+  /** What the hook building the statement wrote, for errors */
+  write: { table: Table; changeSets: ChangeSet[] } | null;
+}
+
+/**
+ * SQLite database adapter for libSQL and Turso.
+ *
+ * Statements of a flush are collected instead of executed and sent with
+ * libSQL's `batch()`, which runs them in a single transaction and one round
+ * trip instead of awaiting each statement over the connection. Flushes
+ * writing versioned entities need the row counts of their statements before
+ * committing, so they run in an interactive transaction instead. A failed
+ * batch reports the index of its failing statement, which is mapped back to
+ * what that statement wrote.
+ *
+ * Session transactions are libSQL interactive transactions in write mode
+ * (BEGIN IMMEDIATE), as BEGIN sent on its own does not hold over remote
+ * connections.
+ */
+export class LibSQLAdapter extends SqliteAdapter {
+  protected override db: LibSQLDatabase<any>;
+  private pendingBatch: BatchStatement[] | null = null;
+  private batchNeedsTransaction = false;
+
+  constructor(db: LibSQLDatabase<any>) {
+    super(db);
+    this.db = db;
+  }
+
+  protected override async runInTransaction<T>(
+    work: (tx: any) => Promise<T>,
+  ): Promise<T> {
+    const statements: BatchStatement[] = [];
+    this.pendingBatch = statements;
+    this.batchNeedsTransaction = false;
+    let result: T;
+    try {
+      result = await work(this.db);
+    } finally {
+      this.pendingBatch = null;
+    }
+
+    // Build the statements again, executing them as they are built
+    if (this.batchNeedsTransaction) {
+      return this.db.transaction((tx) => work(tx));
+    }
+
+    if (statements.length > 0) {
+      const results = await this.db
+        .batch(
+          statements.map((statement) => statement.query) as [
+            BatchItem<"sqlite">,
+            ...BatchItem<"sqlite">[],
+          ],
+        )
+        .catch((error) => {
+          const index = this.getErrorChain(error).find(
+            (cause) => typeof cause.statementIndex === "number",
+          )?.statementIndex;
+          const write = statements[index]?.write;
+          throw write
+            ? this.toSaveError(error, write.table, write.changeSets)
+            : error;
+        });
+      statements.forEach((statement, index) =>
+        statement.onResult?.(results[index]),
+      );
+    }
+
+    return result;
+  }
+
+  protected override async openSession(
+    _options: SessionOptions,
+  ): Promise<SessionTransaction> {
+    return this.openCallbackSession((work) => this.db.transaction(work));
+  }
+
+  protected override async executeCountedQuery(
+    tx: any,
+    table: Table,
+    query: any,
+    onCount: (count: number) => void,
+  ): Promise<void> {
+    if (this.pendingBatch) {
+      this.batchNeedsTransaction = true;
+      return;
+    }
+
+    return super.executeCountedQuery(tx, table, query, onCount);
+  }
+
+  protected override async executeQuery(
+    tx: any,
+    query: any,
+    onResult?: (result: any) => void,
+  ): Promise<void> {
+    if (!this.pendingBatch) {
+      return super.executeQuery(tx, query, onResult);
+    }
+
+    this.pendingBatch.push({
+      query: is(query, SQL) ? this.db.run(query) : query,
+      onResult,
+      write: this.currentWrite,
+    });
+  }
+}
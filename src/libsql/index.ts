@@ -0,0 +1,25 @@
+import { UnitOfWork } from "../uow";
+import type {
+  UnitOfWorkOptions,
+  UnitOfWorkRepos,
+  AnyDrizzleDB,
+} from "../types";
+import { LibSQLAdapter } from "./adapter";
+import type { LibSQLDatabase } from "drizzle-orm/libsql";
+
+export { LibSQLAdapter } from "./adapter";
+
+export type CreateUowReturnType<TDatabase extends AnyDrizzleDB> =
+  UnitOfWork<TDatabase> & UnitOfWorkRepos<TDatabase>;
+
+/**
+ * Create a Unit of Work instance for a Drizzle libSQL database
+ */
+export function drizzow<TDatabase extends LibSQLDatabase<Record<string, any>>>(
+  db: TDatabase,
+  options: UnitOfWorkOptions<TDatabase> = {},
+): CreateUowReturnType<TDatabase> {
+  const adapter = new LibSQLAdapter(db);
+  // Create the UoW instance
+  return new UnitOfWork(db, adapter, options) as never;
+}
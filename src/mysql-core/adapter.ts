@@ -0,0 +1,230 @@
+import { getTableName, sql, type Column, type Table } from "drizzle-orm";
+import { BaseDatabaseAdapter } from "../base-adapter";
+import {
+  getTableConfig,
+  type MySqlDatabase,
+  type MySqlTable,
+} from "drizzle-orm/mysql-core";
+import type {
+  ChangeSet,
+  ConflictAction,
+  ConstraintViolation,
+  ForeignKeyReference,
+  SessionOptions,
+  SessionTransaction,
+} from "../types";
+
+/**
+ * Error numbers of constraint violations
+ */
+const constraintViolations: Record<number, ConstraintViolation> = {
+  1062: "unique", // ER_DUP_ENTRY
+  1451: "foreignKey", // ER_ROW_IS_REFERENCED_2
+  1452: "foreignKey", // ER_NO_REFERENCED_ROW_2
+  1048: "notNull", // ER_BAD_NULL_ERROR
+};
+
+export abstract class MySqlAdapter extends BaseDatabaseAdapter {
+  protected override db: MySqlDatabase<any, any, any>;
+
+  constructor(db: MySqlDatabase<any, any, any>) {
+    super(db);
+    this.db = db;
+  }
+
+  override async beginTransaction(): Promise<any> {
+    // MySQL in Drizzle uses transactions differently
+    // We'll return a transaction object that we can use later
+    return this.db.transaction(async (tx) => {
+      return tx;
+    });
+  }
+
+  override async executeInsert(table: Table, values: any[]): Promise<void> {
+    if (values.length === 0) return;
+
+    await this.executeBatchOperation(
+      values,
+      async (batch) => {
+        await this.db.insert(table as MySqlTable).values(batch);
+      },
+      this.getInsertBatchSize(table),
+    );
+  }
+
+  override async executeUpdate(
+    table: Table,
+    id: any,
+    changes: Record<string, any>,
+  ): Promise<void> {
+    if (Object.keys(changes).length === 0) return;
+
+    await this.db
+      .update(table as MySqlTable)
+      .set(changes)
+      .where(this.buildPrimaryKeyCondition(table, id));
+  }
+
+  override async executeDelete(table: Table, id: any): Promise<void> {
+    await this.db
+      .delete(table as MySqlTable)
+      .where(this.buildPrimaryKeyCondition(table, id));
+  }
+
+  override async commitTransaction(_tx: any): Promise<void> {
+    // In Drizzle MySQL, transactions are auto-committed when the callback completes
+    // This is handled by the transaction wrapper
+  }
+
+  override async rollbackTransaction(_tx: any): Promise<void> {
+    // In Drizzle MySQL, transactions are auto-rolled back on error
+    // This is handled by the transaction wrapper
+    throw new Error("Transaction rolled back");
+  }
+
+  /**
+   * Run flushes in Drizzle's MySQL transactions
+   */
+  protected override async runInTransaction<T>(
+    work: (tx: any) => Promise<T>,
+  ): Promise<T> {
+    return this.db.transaction((tx) => work(tx));
+  }
+
+  /**
+   * Keep a Drizzle MySQL transaction open for the session
+   */
+  protected override async openSession({
+    isolationLevel,
+  }: SessionOptions): Promise<SessionTransaction> {
+    return this.openCallbackSession((work) =>
+      this.db.transaction(
+        work,
+        isolationLevel ? { isolationLevel } : undefined,
+      ),
+    );
+  }
+
+  override getDatabaseType(): "sqlite" | "postgres" | "mysql" {
+    return "mysql";
+  }
+
+  /**
+   * Deadlocks (ER_LOCK_DEADLOCK), which is also how InnoDB reports
+   * serialization failures
+   */
+  override isRetryableError(error: unknown): boolean {
+    return this.getErrorChain(error).some(
+      (cause) => cause.code === "ER_LOCK_DEADLOCK" || cause.errno === 1213,
+    );
+  }
+
+  protected override getConstraintViolation(
+    error: unknown,
+  ): ConstraintViolation | null {
+    for (const cause of this.getErrorChain(error)) {
+      const violation = constraintViolations[cause.errno];
+      if (violation) return violation;
+    }
+
+    return null;
+  }
+
+  protected override getCompositePrimaryKeyColumns(table: Table): Column[] {
+    return getTableConfig(table as MySqlTable).primaryKeys.flatMap(
+      (primaryKey) => primaryKey.columns,
+    );
+  }
+
+  protected override getForeignKeys(table: Table): ForeignKeyReference[] {
+    return getTableConfig(table as MySqlTable).foreignKeys.map((foreignKey) =>
+      foreignKey.reference(),
+    );
+  }
+
+  /**
+   * MySQL has no conflict target: `ON DUPLICATE KEY UPDATE col = VALUES(col)`,
+   * or `pk = pk` to skip the row. Both also apply to rows conflicting on a
+   * unique index.
+   */
+  protected override withConflictAction(
+    query: any,
+    table: Table,
+    onConflict: ConflictAction,
+    columnKeys: string[],
+  ): any {
+    const set = this.buildConflictSet(
+      table,
+      columnKeys,
+      (column) => sql`values(${sql.identifier(column.name)})`,
+    );
+
+    if (onConflict === "ignore" || Object.keys(set).length === 0) {
+      const [key, column] = Object.entries(
+        this.getPrimaryKeyColumns(table),
+      )[0]!;
+      return query.onDuplicateKeyUpdate({
+        set: { [key]: sql`${sql.identifier(column.name)}` },
+      });
+    }
+
+    return query.onDuplicateKeyUpdate({ set });
+  }
+
+  /**
+   * MySQL has no RETURNING clause, so the count is the statement's
+   * `affectedRows`
+   */
+  protected override async executeCountedQuery(
+    tx: any,
+    _table: Table,
+    query: any,
+    onCount: (count: number) => void,
+  ): Promise<void> {
+    await this.executeQuery(tx, query, (result: any) => {
+      const header = Array.isArray(result) ? result[0] : result;
+      onCount(header.affectedRows);
+    });
+  }
+
+  /**
+   * MySQL has no RETURNING clause. Entities created without a primary key are
+   * inserted one statement each, so the key Drizzle derives from the
+   * statement's `insertId` is theirs whatever the auto-increment settings.
+   * Only the key is read back.
+   */
+  protected override async insertChangeSets(
+    tx: any,
+    table: Table,
+    changeSets: ChangeSet[],
+  ): Promise<void> {
+    const transient = changeSets.filter(
+      (changeSet) =>
+        !this.isPrimaryKeyComplete(
+          this.extractPrimaryKeyValue(table, changeSet.entity),
+        ),
+    );
+
+    await super.insertChangeSets(
+      tx,
+      table,
+      changeSets.filter((changeSet) => !transient.includes(changeSet)),
+    );
+
+    for (const changeSet of transient) {
+      await this.executeQuery(
+        tx,
+        tx.insert(table).values(changeSet.entity).$returningId(),
+        ([id]: Record<string, any>[]) => {
+          if (!id) {
+            throw new Error(
+              `Cannot read generated keys of table ${getTableName(table)}: MySQL only returns auto-increment or $defaultFn primary keys`,
+            );
+          }
+
+          changeSet.generatedValues = { ...id };
+        },
+      );
+    }
+  }
+}
@@ -0,0 +1,285 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { drizzle, type MySql2Database } from "drizzle-orm/mysql2";
+import { mysqlTable, serial, text, int, varchar } from "drizzle-orm/mysql-core";
+import { createConnection, type Connection } from "mysql2/promise";
+import { eq } from "drizzle-orm";
+import { MySql2Adapter } from "./adapter";
+import {
+  ForeignKeyError,
+  NotNullError,
+  UniqueConstraintError,
+} from "../errors";
+import { drizzow } from "./index";
+
+// Test schema
+const users = mysqlTable("test_users", {
+  id: serial("id").primaryKey(),
+  name: varchar("name", { length: 255 }).notNull(),
+  email: varchar("email", { length: 255 }).notNull(),
+  age: int("age"),
+});
+
+const posts = mysqlTable("test_posts", {
+  id: serial("id").primaryKey(),
+  title: text("title").notNull(),
+  content: text("content"),
+  userId: int("user_id").notNull(),
+});
+
+const schema = { users, posts };
+
+describe("MySql2Adapter", () => {
+  let connection: Connection;
+  let db: MySql2Database<typeof schema>;
+  let adapter: MySql2Adapter;
+
+  beforeEach(async () => {
+    // Skip if no MySQL connection is available
+    if (!process.env.MYSQL_TEST_DB_URL) {
+      console.log("Skipping MySQL tests - no MYSQL_TEST_DB_URL set");
+      return;
+    }
+
+    connection = await createConnection({
+      uri: process.env.MYSQL_TEST_DB_URL,
+      multipleStatements: true,
+    });
+
+    db = drizzle(connection, { schema, mode: "default" });
+    adapter = new MySql2Adapter(db);
+
+    // Create test tables
+    await connection.query(`
+      DROP TABLE IF EXISTS test_posts;
+      DROP TABLE IF EXISTS test_users;
+
+      CREATE TABLE test_users (
+        id SERIAL PRIMARY KEY,
+        name VARCHAR(255) NOT NULL,
+        email VARCHAR(255) NOT NULL,
+        age INT
+      );
+
+      CREATE TABLE test_posts (
+        id SERIAL PRIMARY KEY,
+        title TEXT NOT NULL,
+        content TEXT,
+        user_id INT NOT NULL
+      );
+    `);
+  });
+
+  afterEach(async () => {
+    if (connection) {
+      await connection.query(`
+        DROP TABLE IF EXISTS test_posts;
+        DROP TABLE IF EXISTS test_users;
+      `);
+      await connection.end();
+    }
+  });
+
+  it("should identify as mysql database type", () => {
+    if (!process.env.MYSQL_TEST_DB_URL) return;
+    expect(adapter.getDatabaseType()).toBe("mysql");
+  });
+
+  it("should execute changesets in transaction", async () => {
+    if (!process.env.MYSQL_TEST_DB_URL) return;
+
+    const changeSets = [
+      {
+        tableName: "users",
+        entity: { id: 1, name: "Alice", email: "alice@example.com", age: 25 },
+        state: "added",
+        changes: new Map(),
+      },
+      {
+        tableName: "users",
+        entity: { id: 2, name: "Bob", email: "bob@example.com", age: 35 },
+        state: "added",
+        changes: new Map(),
+      },
+    ];
+
+    await adapter.executeChangeSets(changeSets as any);
+
+    // Verify the inserts
+    const result = await db.select().from(users);
+    expect(result).toHaveLength(2);
+    expect(result[0]!.name).toBe("Alice");
+    expect(result[1]!.name).toBe("Bob");
+  });
+
+  it("should handle updates in changesets", async () => {
+    if (!process.env.MYSQL_TEST_DB_URL) return;
+
+    await db.insert(users).values({
+      id: 1,
+      name: "Charlie",
+      email: "charlie@example.com",
+      age: 40,
+    });
+
+    const changeSets = [
+      {
+        tableName: "users",
+        entity: {
+          id: 1,
+          name: "Charlie Updated",
+          email: "charlie@example.com",
+          age: 41,
+        },
+        state: "modified",
+        changes: new Map([
+          ["name", { old: "Charlie", new: "Charlie Updated" }],
+          ["age", { old: 40, new: 41 }],
+        ]),
+      },
+    ];
+
+    await adapter.executeChangeSets(changeSets as any);
+
+    // Verify the update
+    const [updated] = await db.select().from(users).where(eq(users.id, 1));
+    expect(updated!.name).toBe("Charlie Updated");
+    expect(updated!.age).toBe(41);
+  });
+
+  it("should handle deletes in changesets", async () => {
+    if (!process.env.MYSQL_TEST_DB_URL) return;
+
+    await db.insert(users).values({
+      id: 1,
+      name: "David",
+      email: "david@example.com",
+      age: 50,
+    });
+
+    const changeSets = [
+      {
+        tableName: "users",
+        entity: { id: 1 },
+        state: "deleted",
+        changes: new Map(),
+      },
+    ];
+
+    await adapter.executeChangeSets(changeSets as any);
+
+    // Verify the delete
+    const result = await db.select().from(users).where(eq(users.id, 1));
+    expect(result).toHaveLength(0);
+  });
+
+  it("should rollback transaction on error", async () => {
+    if (!process.env.MYSQL_TEST_DB_URL) return;
+
+    const changeSets = [
+      {
+        tableName: "users",
+        entity: { id: 1, name: "Eve", email: "eve@example.com", age: 30 },
+        state: "added",
+        changes: new Map(),
+      },
+      {
+        tableName: "invalid_table", // This will cause an error
+        entity: { id: 1 },
+        state: "added",
+        changes: new Map(),
+      },
+    ];
+
+    await expect(
+      adapter.executeChangeSets(changeSets as any),
+    ).rejects.toThrow();
+
+    // Verify no users were inserted due to rollback
+    const result = await db.select().from(users);
+    expect(result).toHaveLength(0);
+  });
+
+  it("should read generated keys back from insertId", async () => {
+    if (!process.env.MYSQL_TEST_DB_URL) return;
+
+    await db
+      .insert(users)
+      .values({ name: "existing", email: "existing@example.com" });
+
+    const uow = drizzow(db);
+    const alice = uow.users.create({
+      name: "Alice",
+      email: "alice@example.com",
+    });
+    const bob = uow.users.create({ name: "Bob", email: "bob@example.com" });
+
+    await uow.save();
+
+    expect(alice.id).toBe(2);
+    expect(bob.id).toBe(3);
+    expect(await uow.users.find({ id: 3 })).toBe(bob);
+  });
+
+  it("should batch updates of many rows", async () => {
+    if (!process.env.MYSQL_TEST_DB_URL) return;
+
+    await db.insert(users).values(
+      Array.from({ length: 50 }, (_, i) => ({
+        id: i + 1,
+        name: `User ${i}`,
+        email: `user${i}@example.com`,
+        age: 20,
+      })),
+    );
+
+    const uow = drizzow(db);
+    const all = await uow.users.findMany();
+    for (const user of all) {
+      user.age = user.id;
+    }
+
+    await uow.save();
+
+    const result = await db.select().from(users);
+    expect(result.every((user) => user.age === user.id)).toBe(true);
+  });
+
+  it("should get primary key column", () => {
+    if (!process.env.MYSQL_TEST_DB_URL) return;
+
+    const column = adapter.getPrimaryKeyColumn(users);
+    expect(column).toBeDefined();
+    expect(column?.name).toBe("id");
+  });
+});
+
+describe("MySql2Adapter errors", () => {
+  it("should classify deadlocks as retryable", () => {
+    const adapter = new MySql2Adapter(drizzle.mock({ schema, mode: "default" }));
+    const failedQuery = (cause: unknown) =>
+      new Error("Failed query", { cause });
+
+    expect(
+      adapter.isRetryableError(failedQuery({ code: "ER_LOCK_DEADLOCK" })),
+    ).toBe(true);
+    expect(
+      adapter.isRetryableError(failedQuery({ code: "ER_DUP_ENTRY" })),
+    ).toBe(false);
+  });
+
+  it("should classify constraint violations by error number", () => {
+    const adapter = new MySql2Adapter(drizzle.mock({ schema, mode: "default" }));
+    const failedQuery = (cause: unknown) =>
+      new Error("Failed query", { cause });
+
+    expect(adapter.toSaveError(failedQuery({ errno: 1062 }))).toBeInstanceOf(
+      UniqueConstraintError,
+    );
+    expect(adapter.toSaveError(failedQuery({ errno: 1452 }))).toBeInstanceOf(
+      ForeignKeyError,
+    );
+    expect(adapter.toSaveError(failedQuery({ errno: 1048 }))).toBeInstanceOf(
+      NotNullError,
+    );
+  });
+});
@@ -0,0 +1,14 @@
+import type { MySql2Database } from "drizzle-orm/mysql2";
+import { MySqlAdapter } from "../mysql-core/adapter";
+
+/**
+ * MySQL database adapter for mysql2
+ */
+export class MySql2Adapter extends MySqlAdapter {
+  protected override db: MySql2Database<any>;
+
+  constructor(db: MySql2Database<any>) {
+    super(db);
+    this.db = db;
+  }
+}
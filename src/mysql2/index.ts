@@ -0,0 +1,25 @@
+import { UnitOfWork } from "../uow";
+import type {
+  UnitOfWorkOptions,
+  UnitOfWorkRepos,
+  AnyDrizzleDB,
+} from "../types";
+import { MySql2Adapter } from "./adapter";
+import type { MySql2Database } from "drizzle-orm/mysql2";
+
+export { MySql2Adapter } from "./adapter";
+
+export type CreateUowReturnType<TDatabase extends AnyDrizzleDB> =
+  UnitOfWork<TDatabase> & UnitOfWorkRepos<TDatabase>;
+
+/**
+ * Create a Unit of Work instance for a Drizzle MySQL database
+ */
+export function drizzow<TDatabase extends MySql2Database<Record<string, any>>>(
+  db: TDatabase,
+  options: UnitOfWorkOptions<TDatabase> = {},
+): CreateUowReturnType<TDatabase> {
+  const adapter = new MySql2Adapter(db);
+  // Create the UoW instance
+  return new UnitOfWork(db, adapter, options) as never;
+}
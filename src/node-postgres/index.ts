@@ -1,5 +1,9 @@
 import { UnitOfWork } from "../uow";
-import type { UnitOfWorkRepos, AnyDrizzleDB } from "../types";
+import type {
+  UnitOfWorkOptions,
+  UnitOfWorkRepos,
+  AnyDrizzleDB,
+} from "../types";
 import { NodePostgresAdapter } from "./adapter";
 import type { NodePgDatabase } from "drizzle-orm/node-postgres";
 
@@ -13,8 +17,9 @@ export type CreateUowReturnType<TDatabase extends AnyDrizzleDB> =
  */
 export function drizzow<TDatabase extends NodePgDatabase<Record<string, any>>>(
   db: TDatabase,
+  options: UnitOfWorkOptions<TDatabase> = {},
 ): CreateUowReturnType<TDatabase> {
   const adapter = new NodePostgresAdapter(db);
   // Create the UoW instance
-  return new UnitOfWork(db, adapter) as never;
+  return new UnitOfWork(db, adapter, options) as never;
 }
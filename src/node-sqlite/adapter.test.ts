@@ -0,0 +1,17 @@
+import { drizzle } from "drizzle-orm/sqlite-proxy";
+import { DatabaseSync } from "node:sqlite";
+import { NodeSqliteAdapter } from "./adapter";
+import { createNodeSqliteCallback } from "./driver";
+import { describeSqliteAdapter } from "../sqlite-core/adapter-suite";
+
+describeSqliteAdapter("NodeSqliteAdapter", (schema) => {
+  const sqlite = new DatabaseSync(":memory:");
+  const db = drizzle(createNodeSqliteCallback(sqlite), { schema });
+
+  return {
+    db,
+    adapter: new NodeSqliteAdapter(db),
+    exec: (query) => sqlite.exec(query),
+    close: () => sqlite.close(),
+  };
+});
@@ -0,0 +1,15 @@
+import type { SqliteRemoteDatabase } from "drizzle-orm/sqlite-proxy";
+import { SqliteAdapter } from "../sqlite-core/adapter";
+
+/**
+ * SQLite database adapter for Node's built-in `node:sqlite` module, used
+ * through Drizzle's sqlite-proxy driver (see `createNodeSqliteCallback`)
+ */
+export class NodeSqliteAdapter extends SqliteAdapter {
+  protected override db: SqliteRemoteDatabase<any>;
+
+  constructor(db: SqliteRemoteDatabase<any>) {
+    super(db);
+    this.db = db;
+  }
+}
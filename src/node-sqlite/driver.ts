@@ -0,0 +1,43 @@
+import type { DatabaseSync, StatementSync } from "node:sqlite";
+import type { AsyncRemoteCallback } from "drizzle-orm/sqlite-proxy";
+
+// setReturnArrays() is missing from older @types/node releases
+type ArrayStatement = StatementSync & {
+  setReturnArrays(enabled: boolean): void;
+};
+
+/**
+ * Build the sqlite-proxy callback running queries on a `node:sqlite`
+ * database. Drizzle has no native driver for `node:sqlite` yet:
+ *
+ * ```typescript
+ * import { DatabaseSync } from "node:sqlite";
+ * import { drizzle } from "drizzle-orm/sqlite-proxy";
+ *
+ * const db = drizzle(createNodeSqliteCallback(new DatabaseSync("app.db")), {
+ *   schema,
+ * });
+ * ```
+ *
+ * Rows are returned as arrays, which requires Node 22.16 / 24 or later.
+ */
+export function createNodeSqliteCallback(
+  database: DatabaseSync,
+): AsyncRemoteCallback {
+  return async (query, params, method) => {
+    const statement = database.prepare(query) as ArrayStatement;
+
+    if (method === "run") {
+      statement.run(...params);
+      return { rows: [] };
+    }
+
+    statement.setReturnArrays(true);
+
+    if (method === "get") {
+      return { rows: statement.get(...params) as any };
+    }
+
+    return { rows: statement.all(...params) as any[] };
+  };
+}
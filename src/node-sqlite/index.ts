@@ -0,0 +1,28 @@
+import { UnitOfWork } from "../uow";
+import type {
+  UnitOfWorkOptions,
+  UnitOfWorkRepos,
+  AnyDrizzleDB,
+} from "../types";
+import { NodeSqliteAdapter } from "./adapter";
+import type { SqliteRemoteDatabase } from "drizzle-orm/sqlite-proxy";
+
+export { NodeSqliteAdapter } from "./adapter";
+export { createNodeSqliteCallback } from "./driver";
+
+export type CreateUowReturnType<TDatabase extends AnyDrizzleDB> =
+  UnitOfWork<TDatabase> & UnitOfWorkRepos<TDatabase>;
+
+/**
+ * Create a Unit of Work instance for a Drizzle database backed by `node:sqlite`
+ */
+export function drizzow<
+  TDatabase extends SqliteRemoteDatabase<Record<string, any>>,
+>(
+  db: TDatabase,
+  options: UnitOfWorkOptions<TDatabase> = {},
+): CreateUowReturnType<TDatabase> {
+  const adapter = new NodeSqliteAdapter(db);
+  // Create the UoW instance
+  return new UnitOfWork(db, adapter, options) as never;
+}
@@ -0,0 +1,500 @@
+import {
+  describe,
+  it,
+  expect,
+  beforeAll,
+  afterAll,
+  beforeEach,
+} from "bun:test";
+import { asc, eq } from "drizzle-orm";
+import {
+  pgEnum,
+  pgSchema,
+  pgTable,
+  serial,
+  text,
+  integer,
+  primaryKey,
+  type PgDatabase,
+  type PgQueryResultHKT,
+} from "drizzle-orm/pg-core";
+import { UnitOfWork } from "../uow";
+import {
+  ForeignKeyError,
+  NotNullError,
+  SaveError,
+  UniqueConstraintError,
+} from "../errors";
+import type { UnitOfWorkRepos } from "../types";
+import type { PostgresAdapter } from "./adapter";
+
+// Test schema
+const users = pgTable("test_users", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  email: text("email").notNull(),
+  age: integer("age"),
+});
+
+const posts = pgTable("test_posts", {
+  id: serial("id").primaryKey(),
+  title: text("title").notNull(),
+  content: text("content"),
+  userId: integer("user_id").notNull(),
+});
+
+const memberships = pgTable(
+  "test_memberships",
+  {
+    orgId: integer("org_id").notNull(),
+    userId: integer("user_id").notNull(),
+    role: text("role").notNull(),
+  },
+  (t) => [primaryKey({ columns: [t.orgId, t.userId] })],
+);
+
+const mood = pgEnum("Mood", ["happy", "sad"]);
+const level = pgSchema("test_schema").enum("Level", ["low", "high"]);
+
+const moods = pgTable("test_moods", {
+  id: serial("id").primaryKey(),
+  mood: mood("mood").notNull(),
+  level: level("level").notNull(),
+});
+
+export const postgresSuiteSchema = { users, posts, memberships, moods };
+
+type SuiteDatabase = PgDatabase<PgQueryResultHKT, typeof postgresSuiteSchema>;
+
+export interface PostgresSuiteConnection {
+  /** Drizzle database created with `postgresSuiteSchema` */
+  db: any;
+  adapter: PostgresAdapter;
+  /** Run raw SQL, possibly containing several statements */
+  exec(query: string): Promise<unknown>;
+  close(): Promise<void>;
+}
+
+/**
+ * Adapter tests shared by every PostgreSQL driver. Each driver's test file
+ * calls this with a function connecting to its database.
+ */
+export function describePostgresAdapter(
+  name: string,
+  connect: (
+    schema: typeof postgresSuiteSchema,
+  ) => Promise<PostgresSuiteConnection>,
+  options: { skip?: boolean } = {},
+) {
+  describe.skipIf(options.skip ?? false)(name, () => {
+    let connection: PostgresSuiteConnection;
+    let db: any;
+    let adapter: PostgresAdapter;
+
+    function createUow() {
+      return new UnitOfWork(db, adapter) as UnitOfWork<SuiteDatabase> &
+        UnitOfWorkRepos<SuiteDatabase>;
+    }
+
+    beforeAll(async () => {
+      connection = await connect(postgresSuiteSchema);
+      db = connection.db;
+      adapter = connection.adapter;
+    });
+
+    afterAll(async () => {
+      await connection.exec(`
+        DROP TABLE IF EXISTS test_posts CASCADE;
+        DROP TABLE IF EXISTS test_users CASCADE;
+        DROP TABLE IF EXISTS test_memberships CASCADE;
+        DROP TABLE IF EXISTS test_moods CASCADE;
+        DROP TYPE IF EXISTS "Mood";
+        DROP SCHEMA IF EXISTS test_schema CASCADE;
+      `);
+      await connection.close();
+    });
+
+    beforeEach(async () => {
+      // Create test tables
+      await connection.exec(`
+        DROP TABLE IF EXISTS test_posts CASCADE;
+        DROP TABLE IF EXISTS test_users CASCADE;
+        DROP TABLE IF EXISTS test_memberships CASCADE;
+        DROP TABLE IF EXISTS test_moods CASCADE;
+        DROP TYPE IF EXISTS "Mood";
+        DROP SCHEMA IF EXISTS test_schema CASCADE;
+
+        CREATE TABLE test_users (
+          id SERIAL PRIMARY KEY,
+          name TEXT NOT NULL,
+          email TEXT NOT NULL,
+          age INTEGER
+        );
+
+        CREATE TABLE test_posts (
+          id SERIAL PRIMARY KEY,
+          title TEXT NOT NULL,
+          content TEXT,
+          user_id INTEGER NOT NULL
+        );
+
+        CREATE TABLE test_memberships (
+          org_id INTEGER NOT NULL,
+          user_id INTEGER NOT NULL,
+          role TEXT NOT NULL,
+          PRIMARY KEY (org_id, user_id)
+        );
+
+        CREATE TYPE "Mood" AS ENUM ('happy', 'sad');
+        CREATE SCHEMA test_schema;
+        CREATE TYPE test_schema."Level" AS ENUM ('low', 'high');
+        CREATE TABLE test_moods (
+          id SERIAL PRIMARY KEY,
+          mood "Mood" NOT NULL,
+          level test_schema."Level" NOT NULL
+        );
+      `);
+    });
+
+    it("should identify as postgres database type", () => {
+      expect(adapter.getDatabaseType()).toBe("postgres");
+    });
+
+    it("should classify serialization failures and deadlocks as retryable", () => {
+      const failedQuery = (cause: unknown) =>
+        new Error("Failed query", { cause });
+
+      expect(adapter.isRetryableError(failedQuery({ code: "40001" }))).toBe(
+        true,
+      );
+      expect(adapter.isRetryableError(failedQuery({ code: "40P01" }))).toBe(
+        true,
+      );
+      // Bun SQL
+      expect(adapter.isRetryableError(failedQuery({ errno: "40001" }))).toBe(
+        true,
+      );
+      expect(adapter.isRetryableError(failedQuery({ code: "23505" }))).toBe(
+        false,
+      );
+    });
+
+    it("should throw the failing change of a unique violation", async () => {
+      const uow = createUow();
+      uow.users.create({ id: 1, name: "Alice", email: "alice@example.com" });
+      await uow.save();
+
+      const duplicate = createUow();
+      duplicate.users.create({ id: 1, name: "Bob", email: "bob@example.com" });
+      const error = await duplicate.save().catch((error) => error);
+
+      expect(error).toBeInstanceOf(UniqueConstraintError);
+      expect(error.tableName).toBe("users");
+      expect(error.primaryKey).toBe(1);
+      expect(error.changeSet.entity.name).toBe("Bob");
+    });
+
+    it("should classify constraint violations by SQLSTATE", () => {
+      const failedQuery = (cause: unknown) =>
+        new Error("Failed query", { cause });
+
+      expect(
+        adapter.toSaveError(failedQuery({ code: "23505" })),
+      ).toBeInstanceOf(UniqueConstraintError);
+      expect(
+        adapter.toSaveError(failedQuery({ code: "23503" })),
+      ).toBeInstanceOf(ForeignKeyError);
+      // Bun SQL
+      expect(
+        adapter.toSaveError(failedQuery({ errno: "23502" })),
+      ).toBeInstanceOf(NotNullError);
+      expect(
+        adapter.toSaveError(failedQuery({ code: "40001" })).constructor,
+      ).toBe(SaveError);
+    });
+
+    it("should execute changesets in transaction", async () => {
+      const changeSets = [
+        {
+          tableName: "users",
+          entity: { name: "Alice", email: "alice@example.com", age: 25 },
+          state: "added",
+          changes: new Map(),
+        },
+        {
+          tableName: "users",
+          entity: { name: "Bob", email: "bob@example.com", age: 35 },
+          state: "added",
+          changes: new Map(),
+        },
+      ];
+
+      await adapter.executeChangeSets(changeSets as any);
+
+      // Verify the inserts
+      const result = await db.select().from(users).orderBy(asc(users.id));
+      expect(result).toHaveLength(2);
+      expect(result[0].name).toBe("Alice");
+      expect(result[1].name).toBe("Bob");
+    });
+
+    it("should handle updates in changesets", async () => {
+      // First insert a user
+      const [user] = await db
+        .insert(users)
+        .values({ name: "Charlie", email: "charlie@example.com", age: 40 })
+        .returning();
+
+      // Create update changeset
+      const changeSets = [
+        {
+          tableName: "users",
+          entity: {
+            id: user.id,
+            name: "Charlie Updated",
+            email: user.email,
+            age: 41,
+          },
+          state: "modified",
+          changes: new Map([
+            ["name", { old: "Charlie", new: "Charlie Updated" }],
+            ["age", { old: 40, new: 41 }],
+          ]),
+        },
+      ];
+
+      await adapter.executeChangeSets(changeSets as any);
+
+      // Verify the update
+      const [updated] = await db
+        .select()
+        .from(users)
+        .where(eq(users.id, user.id));
+      expect(updated.name).toBe("Charlie Updated");
+      expect(updated.age).toBe(41);
+    });
+
+    it("should handle deletes in changesets", async () => {
+      // First insert a user
+      const [user] = await db
+        .insert(users)
+        .values({ name: "David", email: "david@example.com", age: 50 })
+        .returning();
+
+      // Create delete changeset
+      const changeSets = [
+        {
+          tableName: "users",
+          entity: user,
+          state: "deleted",
+          changes: new Map(),
+        },
+      ];
+
+      await adapter.executeChangeSets(changeSets as any);
+
+      // Verify the delete
+      const result = await db
+        .select()
+        .from(users)
+        .where(eq(users.id, user.id));
+      expect(result).toHaveLength(0);
+    });
+
+    it("should rollback transaction on error", async () => {
+      const changeSets = [
+        {
+          tableName: "users",
+          entity: { name: "Eve", email: "eve@example.com", age: 30 },
+          state: "added",
+          changes: new Map(),
+        },
+        {
+          tableName: "invalid_table", // This will cause an error
+          entity: { id: 1 },
+          state: "added",
+          changes: new Map(),
+        },
+      ];
+
+      await expect(
+        adapter.executeChangeSets(changeSets as any),
+      ).rejects.toThrow();
+
+      // Verify no users were inserted due to rollback
+      const result = await db.select().from(users);
+      expect(result).toHaveLength(0);
+    });
+
+    it("should roll back statements that already ran when a later one fails", async () => {
+      await db
+        .insert(users)
+        .values({ id: 1, name: "Frank", email: "frank@example.com" });
+
+      const changeSets = [
+        {
+          tableName: "posts",
+          entity: { id: 1, title: "Hello", userId: 1 },
+          state: "added",
+          changes: new Map(),
+        },
+        {
+          tableName: "users",
+          entity: { id: 1, name: "Duplicate", email: "dup@example.com" },
+          state: "added",
+          changes: new Map(),
+        },
+      ];
+
+      await expect(
+        adapter.executeChangeSets(changeSets as any),
+      ).rejects.toThrow();
+
+      const result = await db.select().from(posts);
+      expect(result).toHaveLength(0);
+    });
+
+    it("should handle batch operations", async () => {
+      // Create many values to test batching
+      const values = Array.from({ length: 100 }, (_, i) => ({
+        name: `User ${i}`,
+        email: `user${i}@example.com`,
+        age: 20 + i,
+      }));
+
+      await adapter.executeInsert(users, values);
+
+      // Verify all were inserted
+      const result = await db.select().from(users);
+      expect(result).toHaveLength(100);
+    });
+
+    it("should extract primary key correctly", () => {
+      const entity = { id: 123, name: "Test", email: "test@example.com" };
+      const primaryKey = adapter.extractPrimaryKeyValue(users, entity);
+      expect(primaryKey).toBe(123);
+    });
+
+    it("should get primary key column", () => {
+      const column = adapter.getPrimaryKeyColumn(users);
+      expect(column).toBeDefined();
+      expect(column?.name).toBe("id");
+    });
+
+    it("should read generated keys back on save", async () => {
+      const uow = createUow();
+      const alice = uow.users.create({
+        name: "Alice",
+        email: "alice@example.com",
+      });
+      const bob = uow.users.create({ name: "Bob", email: "bob@example.com" });
+
+      await uow.save();
+
+      expect(alice.id).toBe(1);
+      expect(bob.id).toBe(2);
+      const [saved] = await db.select().from(users).where(eq(users.id, 2));
+      expect(saved.name).toBe("Bob");
+    });
+
+    it("should sort loaded and added entities with nulls last", async () => {
+      await db.insert(users).values([
+        { name: "Alice", email: "alice@example.com", age: 30 },
+        { name: "Bob", email: "bob@example.com", age: null },
+      ]);
+
+      const uow = createUow();
+      uow.users.create({ name: "Carol", email: "carol@example.com", age: 20 });
+      const found = await uow.users.findMany({
+        orderBy: (u, { asc }) => [asc(u.age)],
+        includeAdded: true,
+      });
+
+      expect(found.map((user) => user.name)).toEqual(["Carol", "Alice", "Bob"]);
+    });
+
+    it("should save batched updates of many rows", async () => {
+      await db.insert(users).values(
+        Array.from({ length: 50 }, (_, i) => ({
+          name: `User ${i}`,
+          email: `user${i}@example.com`,
+          age: 20,
+        })),
+      );
+
+      const uow = createUow();
+      const all = await uow.users.findMany();
+      for (const user of all) {
+        user.age = user.id;
+        user.name = `Renamed ${user.id}`;
+      }
+
+      await uow.save();
+
+      const result = await db.select().from(users);
+      expect(result).toHaveLength(50);
+      for (const user of result) {
+        expect(user.age).toBe(user.id);
+        expect(user.name).toBe(`Renamed ${user.id}`);
+      }
+    });
+
+    it("should save batched updates of a mixed-case enum", async () => {
+      await db.insert(moods).values([
+        { mood: "happy", level: "low" },
+        { mood: "happy", level: "low" },
+      ]);
+
+      const uow = createUow();
+      for (const row of await uow.moods.findMany()) {
+        row.mood = "sad";
+      }
+      await uow.save();
+
+      const result = await db.select().from(moods).orderBy(asc(moods.id));
+      expect(result.map((row: any) => row.mood)).toEqual(["sad", "sad"]);
+    });
+
+    it("should save batched updates of an enum in another schema", async () => {
+      await db.insert(moods).values([
+        { mood: "happy", level: "low" },
+        { mood: "sad", level: "low" },
+      ]);
+
+      const uow = createUow();
+      for (const row of await uow.moods.findMany()) {
+        row.level = "high";
+      }
+      await uow.save();
+
+      const result = await db.select().from(moods).orderBy(asc(moods.id));
+      expect(result.map((row: any) => row.level)).toEqual(["high", "high"]);
+    });
+
+    it("should find, update and delete rows with composite keys", async () => {
+      await db.insert(memberships).values([
+        { orgId: 1, userId: 1, role: "owner" },
+        { orgId: 1, userId: 2, role: "member" },
+        { orgId: 2, userId: 1, role: "member" },
+      ]);
+
+      const uow = createUow();
+      const found = await uow.memberships.find([
+        { orgId: 1, userId: 2 },
+        { orgId: 2, userId: 1 },
+      ]);
+      expect(found).toHaveLength(2);
+
+      const owner = await uow.memberships.find({ orgId: 1, userId: 1 });
+      owner!.role = "admin";
+      for (const membership of found) {
+        uow.memberships.delete(membership);
+      }
+
+      await uow.save();
+
+      const result = await db.select().from(memberships);
+      expect(result).toEqual([{ orgId: 1, userId: 1, role: "admin" }]);
+    });
+  });
+}
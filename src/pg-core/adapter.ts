@@ -1,12 +1,258 @@
+import {
+  and,
+  getTableColumns,
+  is,
+  sql,
+  type Column,
+  type SQL,
+  type Table,
+} from "drizzle-orm";
 import { BaseDatabaseAdapter } from "../base-adapter";
-import { NodePgDatabase } from "drizzle-orm/node-postgres";
+import {
+  getTableConfig,
+  PgArray,
+  PgDatabase,
+  PgEnumColumn,
+  PgEnumObjectColumn,
+  type PgQueryResultHKT,
+  type PgTable,
+} from "drizzle-orm/pg-core";
+import type {
+  ConstraintViolation,
+  ForeignKeyReference,
+  SessionOptions,
+  SessionTransaction,
+} from "../types";
 
+/**
+ * Types that can only be used in column definitions, mapped to the type of their values
+ */
+const pseudoTypes: Record<string, string> = {
+  serial: "integer",
+  bigserial: "bigint",
+  smallserial: "smallint",
+};
+
+/**
+ * SQLSTATEs of errors after which a transaction may succeed if run again
+ */
+const retryableStates = new Set(["40001", "40P01"]);
+
+/**
+ * SQLSTATEs of integrity constraint violations
+ */
+const constraintViolations: Record<string, ConstraintViolation> = {
+  "23505": "unique",
+  "23503": "foreignKey",
+  "23502": "notNull",
+};
+
+/**
+ * Base adapter for PostgreSQL drivers. Drizzle's Postgres drivers share the
+ * same query builder and transaction API, so drivers only narrow the type of
+ * the database they wrap.
+ */
 export abstract class PostgresAdapter extends BaseDatabaseAdapter {
-  constructor(db: NodePgDatabase<any>) {
+  protected override db: PgDatabase<PgQueryResultHKT, any>;
+
+  constructor(db: PgDatabase<PgQueryResultHKT, any>) {
     super(db);
+    this.db = db;
   }
 
   override getDatabaseType(): "sqlite" | "postgres" | "mysql" {
     return "postgres";
   }
-}
\ No newline at end of file
+
+  override async beginTransaction(): Promise<any> {
+    // PostgreSQL in Drizzle uses transactions differently
+    // We'll return a transaction object that we can use later
+    return this.db.transaction(async (tx) => {
+      return tx;
+    });
+  }
+
+  override async executeInsert(table: Table, values: any[]): Promise<void> {
+    if (values.length === 0) return;
+
+    await this.executeBatchOperation(
+      values,
+      async (batch) => {
+        await this.db.insert(table as PgTable).values(batch);
+      },
+      this.getInsertBatchSize(table),
+    );
+  }
+
+  override async executeUpdate(
+    table: Table,
+    id: any,
+    changes: Record<string, any>,
+  ): Promise<void> {
+    if (Object.keys(changes).length === 0) return;
+
+    await this.db
+      .update(table as PgTable)
+      .set(changes)
+      .where(this.buildPrimaryKeyCondition(table, id));
+  }
+
+  override async executeDelete(table: Table, id: any): Promise<void> {
+    await this.db
+      .delete(table as PgTable)
+      .where(this.buildPrimaryKeyCondition(table, id));
+  }
+
+  override async commitTransaction(_tx: any): Promise<void> {
+    // In Drizzle PostgreSQL, transactions are auto-committed when the callback completes
+    // This is handled by the transaction wrapper
+  }
+
+  override async rollbackTransaction(_tx: any): Promise<void> {
+    // In Drizzle PostgreSQL, transactions are auto-rolled back on error
+    // This is handled by the transaction wrapper
+    throw new Error("Transaction rolled back");
+  }
+
+  /**
+   * Run flushes in Drizzle's PostgreSQL transactions
+   */
+  protected override async runInTransaction<T>(
+    work: (tx: any) => Promise<T>,
+  ): Promise<T> {
+    return this.db.transaction((tx) => work(tx));
+  }
+
+  /**
+   * Keep a Drizzle PostgreSQL transaction open for the session
+   */
+  protected override async openSession({
+    isolationLevel,
+  }: SessionOptions): Promise<SessionTransaction> {
+    return this.openCallbackSession((work) =>
+      this.db.transaction(
+        work,
+        isolationLevel ? { isolationLevel } : undefined,
+      ),
+    );
+  }
+
+  /**
+   * serialization_failure (40001) and deadlock_detected (40P01). Bun SQL
+   * reports the SQLSTATE as `errno`.
+   */
+  override isRetryableError(error: unknown): boolean {
+    return this.getErrorChain(error).some(
+      (cause) =>
+        retryableStates.has(cause.code) || retryableStates.has(cause.errno),
+    );
+  }
+
+  protected override getConstraintViolation(
+    error: unknown,
+  ): ConstraintViolation | null {
+    for (const cause of this.getErrorChain(error)) {
+      const violation =
+        constraintViolations[cause.code] ?? constraintViolations[cause.errno];
+      if (violation) return violation;
+    }
+
+    return null;
+  }
+
+  protected override getCompositePrimaryKeyColumns(table: Table): Column[] {
+    return getTableConfig(table as PgTable).primaryKeys.flatMap(
+      (primaryKey) => primaryKey.columns,
+    );
+  }
+
+  protected override getForeignKeys(table: Table): ForeignKeyReference[] {
+    return getTableConfig(table as PgTable).foreignKeys.map((foreignKey) =>
+      foreignKey.reference(),
+    );
+  }
+
+  /**
+   * `UPDATE t SET col = v.col FROM (VALUES (...), ...) AS v(pk, col) WHERE t.pk = v.pk`
+   */
+  protected override buildBatchUpdate(
+    table: Table,
+    columnKeys: string[],
+    rows: Record<string, any>[],
+  ): SQL {
+    const columns = getTableColumns(table);
+    const primaryKeyColumns = Object.entries(this.getPrimaryKeyColumns(table));
+    const valueColumns: [string, Column][] = [
+      ...primaryKeyColumns,
+      ...columnKeys.map((key): [string, Column] => [key, columns[key]!]),
+    ];
+    const alias = sql.identifier("v");
+
+    // VALUES rows are untyped, so every value is cast to its column type
+    const values = rows.map(
+      (row) =>
+        sql`(${sql.join(
+          valueColumns.map(
+            ([key, column]) =>
+              sql`${sql.param(row[key], column)}::${this.getCastType(column)}`,
+          ),
+          sql`, `,
+        )})`,
+    );
+
+    const assignments = columnKeys.map((key) => {
+      const name = sql.identifier(columns[key]!.name);
+      return sql`${name} = ${alias}.${name}`;
+    });
+
+    const match = primaryKeyColumns.map(
+      ([, column]) => sql`${column} = ${alias}.${sql.identifier(column.name)}`,
+    );
+
+    return sql`update ${table} set ${sql.join(assignments, sql`, `)} from (values ${sql.join(values, sql`, `)}) as ${alias}(${sql.join(
+      valueColumns.map(([, column]) => sql.identifier(column.name)),
+      sql`, `,
+    )}) where ${and(...match)}`;
+  }
+
+  /**
+   * Composite keys are matched with a tuple IN: `(a, b) IN ((?, ?), ...)`
+   */
+  override buildPrimaryKeyInCondition(table: Table, primaryKeys: any[]): SQL {
+    const columns = Object.values(this.getPrimaryKeyColumns(table));
+    if (columns.length < 2 || primaryKeys.length === 0) {
+      return super.buildPrimaryKeyInCondition(table, primaryKeys);
+    }
+
+    const tuples = primaryKeys.map(
+      (primaryKey: any[]) =>
+        sql`(${sql.join(
+          columns.map((column, index) => sql.param(primaryKey[index], column)),
+          sql`, `,
+        )})`,
+    );
+
+    return sql`(${sql.join(columns, sql`, `)}) in (${sql.join(tuples, sql`, `)})`;
+  }
+
+  /**
+   * The type values of a column are cast to. Enums are named by their quoted,
+   * schema-qualified name; other types, custom ones included, by their SQL
+   * type as it is written in the table's DDL.
+   */
+  private getCastType(column: Column): SQL {
+    if (is(column, PgArray)) {
+      return sql`${this.getCastType(column.baseColumn)}[]`;
+    }
+
+    if (is(column, PgEnumColumn) || is(column, PgEnumObjectColumn)) {
+      const { enumName, schema } = column.enum;
+      return schema
+        ? sql`${sql.identifier(schema)}.${sql.identifier(enumName)}`
+        : sql`${sql.identifier(enumName)}`;
+    }
+
+    const type = column.getSQLType();
+    return sql.raw(pseudoTypes[type] ?? type);
+  }
+}
@@ -0,0 +1,16 @@
+import { drizzle } from "drizzle-orm/pglite";
+import { PGlite } from "@electric-sql/pglite";
+import { PgliteAdapter } from "./adapter";
+import { describePostgresAdapter } from "../pg-core/adapter-suite";
+
+describePostgresAdapter("PgliteAdapter", async (schema) => {
+  const client = new PGlite();
+  const db = drizzle(client, { schema });
+
+  return {
+    db,
+    adapter: new PgliteAdapter(db),
+    exec: (query) => client.exec(query),
+    close: () => client.close(),
+  };
+});
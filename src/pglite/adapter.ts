@@ -0,0 +1,22 @@
+import type { PgliteDatabase } from "drizzle-orm/pglite";
+import { PostgresAdapter } from "../pg-core/adapter";
+
+/**
+ * PostgreSQL database adapter for PGlite, Postgres compiled to WASM and run in-process
+ */
+export class PgliteAdapter extends PostgresAdapter {
+  protected override db: PgliteDatabase<any>;
+
+  constructor(db: PgliteDatabase<any>) {
+    super(db);
+    this.db = db;
+  }
+
+  /**
+   * PGlite reads the parameter count as a signed 16-bit integer. Statements
+   * with more parameters return no rows and break the connection.
+   */
+  override getMaxParameters(): number {
+    return 32767;
+  }
+}
@@ -0,0 +1,25 @@
+import { UnitOfWork } from "../uow";
+import type {
+  UnitOfWorkOptions,
+  UnitOfWorkRepos,
+  AnyDrizzleDB,
+} from "../types";
+import { PgliteAdapter } from "./adapter";
+import type { PgliteDatabase } from "drizzle-orm/pglite";
+
+export { PgliteAdapter } from "./adapter";
+
+export type CreateUowReturnType<TDatabase extends AnyDrizzleDB> =
+  UnitOfWork<TDatabase> & UnitOfWorkRepos<TDatabase>;
+
+/**
+ * Create a Unit of Work instance for a Drizzle PGlite database
+ */
+export function drizzow<TDatabase extends PgliteDatabase<Record<string, any>>>(
+  db: TDatabase,
+  options: UnitOfWorkOptions<TDatabase> = {},
+): CreateUowReturnType<TDatabase> {
+  const adapter = new PgliteAdapter(db);
+  // Create the UoW instance
+  return new UnitOfWork(db, adapter, options) as never;
+}
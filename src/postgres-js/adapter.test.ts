@@ -0,0 +1,28 @@
+import { drizzle } from "drizzle-orm/postgres-js";
+import postgres from "postgres";
+import { PostgresJsAdapter } from "./adapter";
+import { describePostgresAdapter } from "../pg-core/adapter-suite";
+
+// Skip if no PostgreSQL connection is available
+if (!process.env.PG_TEST_DB_URL) {
+  console.log("Skipping postgres.js tests - no PG_TEST_DB_URL set");
+}
+
+describePostgresAdapter(
+  "PostgresJsAdapter",
+  async (schema) => {
+    const client = postgres(process.env.PG_TEST_DB_URL!, {
+      max: 1,
+      onnotice: () => {},
+    });
+    const db = drizzle(client, { schema });
+
+    return {
+      db,
+      adapter: new PostgresJsAdapter(db),
+      exec: (query) => client.unsafe(query),
+      close: () => client.end(),
+    };
+  },
+  { skip: !process.env.PG_TEST_DB_URL },
+);
@@ -0,0 +1,14 @@
+import type { PostgresJsDatabase } from "drizzle-orm/postgres-js";
+import { PostgresAdapter } from "../pg-core/adapter";
+
+/**
+ * PostgreSQL database adapter for postgres.js
+ */
+export class PostgresJsAdapter extends PostgresAdapter {
+  protected override db: PostgresJsDatabase<any>;
+
+  constructor(db: PostgresJsDatabase<any>) {
+    super(db);
+    this.db = db;
+  }
+}
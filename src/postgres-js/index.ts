@@ -0,0 +1,27 @@
+import { UnitOfWork } from "../uow";
+import type {
+  UnitOfWorkOptions,
+  UnitOfWorkRepos,
+  AnyDrizzleDB,
+} from "../types";
+import { PostgresJsAdapter } from "./adapter";
+import type { PostgresJsDatabase } from "drizzle-orm/postgres-js";
+
+export { PostgresJsAdapter } from "./adapter";
+
+export type CreateUowReturnType<TDatabase extends AnyDrizzleDB> =
+  UnitOfWork<TDatabase> & UnitOfWorkRepos<TDatabase>;
+
+/**
+ * Create a Unit of Work instance for a Drizzle postgres.js database
+ */
+export function drizzow<
+  TDatabase extends PostgresJsDatabase<Record<string, any>>,
+>(
+  db: TDatabase,
+  options: UnitOfWorkOptions<TDatabase> = {},
+): CreateUowReturnType<TDatabase> {
+  const adapter = new PostgresJsAdapter(db);
+  // Create the UoW instance
+  return new UnitOfWork(db, adapter, options) as never;
+}
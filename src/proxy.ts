@@ -1,8 +1,8 @@
-import { getTableName, type Table } from "drizzle-orm";
+import { getTableColumns, is, One, type Table } from "drizzle-orm";
 import { ChangeTracker } from "./change-tracker";
 import { IdentityMap } from "./identity-map";
 import type { BaseDatabaseAdapter } from "./base-adapter";
-import { EntityState } from "./types";
+import { EntityState, type ConflictAction } from "./types";
 
 declare const window: any;
 
@@ -14,6 +14,7 @@ export class ProxyManager {
   private identityMap: IdentityMap;
   private adapter: BaseDatabaseAdapter;
   private proxyCache = new WeakMap<any, any>();
+  private proxyTargets = new WeakMap<any, any>();
 
   constructor(
     changeTracker: ChangeTracker,
@@ -39,6 +40,8 @@ export class ProxyManager {
       return entity;
     }
 
+    const columns = getTableColumns(table);
+
     const proxy = new Proxy(entity as any, {
       set: (
         target: any,
@@ -46,8 +49,8 @@ export class ProxyManager {
         value: any,
         receiver: any,
       ) => {
-        if (typeof property === "symbol") {
-          // Allow symbol properties to pass through
+        if (typeof property === "symbol" || !(property in columns)) {
+          // Allow symbol and non-column (e.g. relation) properties to pass through
           return Reflect.set(target, property, value, receiver);
         }
 
@@ -78,11 +81,12 @@ export class ProxyManager {
       get: (target: any, property: string | symbol, receiver: any) => {
         const value = Reflect.get(target, property, receiver);
 
-        // Don't proxy functions, symbols, or primitives
+        // Don't proxy functions, symbols, primitives or loaded relations
         if (
           typeof property === "symbol" ||
           typeof value === "function" ||
-          !this.isProxyable(value)
+          !this.isProxyable(value) ||
+          !(property in columns)
         ) {
           return value;
         }
@@ -106,17 +110,30 @@ export class ProxyManager {
 
     // Cache the proxy
     this.proxyCache.set(entity, proxy);
+    this.proxyTargets.set(proxy, entity);
     return proxy;
   }
 
+  /**
+   * Write values to an entity without recording them as changes, e.g. keys
+   * generated by the database for a newly inserted entity
+   */
+  assignUntracked(entity: any, values: Record<string, any>): void {
+    Object.assign(this.proxyTargets.get(entity) ?? entity, values);
+  }
+
   /**
    * Create a proxy for a new entity (not yet in database)
    */
-  createNewEntityProxy<T>(entity: T, table: Table): T {
+  createNewEntityProxy<T>(
+    entity: T,
+    table: Table,
+    onConflict?: ConflictAction,
+  ): T {
     const proxy = this.createProxy(entity, table);
 
     // Track as new entity
-    this.changeTracker.markAdded(proxy, table);
+    this.changeTracker.markAdded(proxy, table, onConflict);
 
     return proxy;
   }
@@ -134,6 +151,101 @@ export class ProxyManager {
     }
   }
 
+  /**
+   * Wrap relational query results, tracking every loaded related row
+   */
+  wrapRelationalResults<T>(
+    results: T[],
+    table: Table,
+    withConfig: Record<string, any>,
+  ): T[] {
+    return results
+      .map((row) => this.wrapRelationalResult(row, table, withConfig))
+      .filter(
+        (entity) => this.changeTracker.getState(entity) !== EntityState.Deleted,
+      );
+  }
+
+  /**
+   * Attach loaded relations to a tracked entity without tracking them as
+   * column changes. Relations are non-enumerable so spreading, snapshots and
+   * inserts only ever see the entity's own columns.
+   */
+  attachRelations(
+    entity: any,
+    table: Table,
+    withConfig: Record<string, any>,
+    related: Record<string, any> = {},
+  ): void {
+    const tableName = this.adapter.getTableKey(table);
+    const { relations } = this.adapter.getTableRelationalConfig(tableName);
+
+    for (const [name, config] of Object.entries(withConfig)) {
+      if (!config) continue;
+
+      const relation = relations[name];
+      if (!relation) {
+        throw new Error(
+          `Relation '${name}' not found on table '${tableName}'`,
+        );
+      }
+
+      const nestedWith = typeof config === "object" ? (config.with ?? {}) : {};
+      const value = related[name];
+      let wrapped: any;
+
+      if (is(relation, One)) {
+        wrapped = value
+          ? this.wrapRelationalResult(value, relation.referencedTable, nestedWith)
+          : null;
+        if (
+          wrapped &&
+          this.changeTracker.getState(wrapped) === EntityState.Deleted
+        ) {
+          wrapped = null;
+        }
+      } else {
+        wrapped = this.wrapRelationalResults(
+          value ?? [],
+          relation.referencedTable,
+          nestedWith,
+        );
+      }
+
+      Object.defineProperty(entity, name, {
+        value: wrapped,
+        writable: true,
+        configurable: true,
+        enumerable: false,
+      });
+    }
+  }
+
+  /**
+   * Wrap a single relational query result
+   */
+  private wrapRelationalResult<T>(
+    row: T,
+    table: Table,
+    withConfig: Record<string, any>,
+  ): T {
+    const columns: Record<string, any> = {};
+    const related: Record<string, any> = {};
+
+    for (const [key, value] of Object.entries(row as any)) {
+      if (withConfig[key]) {
+        related[key] = value;
+      } else {
+        columns[key] = value;
+      }
+    }
+
+    const entity = this.wrapSingleResult(columns, table);
+    this.attachRelations(entity, table, withConfig, related);
+
+    return entity as T;
+  }
+
   /**
    * Wrap a single query result
    */
@@ -142,7 +254,7 @@ export class ProxyManager {
       return entity;
     }
 
-    const tableName = getTableName(table);
+    const tableName = this.adapter.getTableKey(table);
     const primaryKey = this.adapter.extractPrimaryKeyValue(table, entity);
 
     // Check if entity already exists in identity map
@@ -323,6 +435,7 @@ export class ProxyManager {
     // WeakMap doesn't have a clear method, but objects will be garbage collected
     // when they go out of scope, automatically cleaning up the cache
     this.proxyCache = new WeakMap();
+    this.proxyTargets = new WeakMap();
   }
 
   /**
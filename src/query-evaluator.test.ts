@@ -0,0 +1,98 @@
+import { describe, test, expect, beforeEach } from "bun:test";
+import { eq, sql } from "drizzle-orm";
+
+import { QueryEvaluator } from "./query-evaluator";
+import { users } from "./uow.test";
+
+describe("Query Evaluator", () => {
+  let evaluator: QueryEvaluator;
+  const alice = { id: 1, username: "alice", email: "alice@example.com" };
+  const bob = { id: 2, username: "bob", email: null };
+
+  beforeEach(() => {
+    evaluator = new QueryEvaluator("sqlite");
+  });
+
+  test("should match everything without a filter", () => {
+    const predicate = evaluator.compileWhere(undefined, users)!;
+
+    expect(predicate(alice)).toBe(true);
+  });
+
+  test("should evaluate comparison operators", () => {
+    const predicate = evaluator.compileWhere(
+      (u: any, { gt }: any) => gt(u.id, 1),
+      users,
+    )!;
+
+    expect(predicate(alice)).toBe(false);
+    expect(predicate(bob)).toBe(true);
+  });
+
+  test("should evaluate logical and null operators", () => {
+    const predicate = evaluator.compileWhere(
+      (u: any, { or, and, eq, isNull }: any) =>
+        or(and(eq(u.id, 1), eq(u.username, "alice")), isNull(u.email)),
+      users,
+    )!;
+
+    expect(predicate(alice)).toBe(true);
+    expect(predicate(bob)).toBe(true);
+    expect(predicate({ ...alice, username: "other" })).toBe(false);
+  });
+
+  test("should evaluate inArray and like", () => {
+    const inList = evaluator.compileWhere(
+      (u: any, { inArray }: any) => inArray(u.id, [2, 3]),
+      users,
+    )!;
+    const pattern = evaluator.compileWhere(
+      (u: any, { like }: any) => like(u.username, "al%"),
+      users,
+    )!;
+
+    expect(inList(alice)).toBe(false);
+    expect(inList(bob)).toBe(true);
+    expect(pattern(alice)).toBe(true);
+    expect(pattern(bob)).toBe(false);
+  });
+
+  test("should not evaluate raw SQL filters", () => {
+    expect(evaluator.compileWhere(eq(users.id, 1), users)).toBeNull();
+    expect(
+      evaluator.compileWhere((u: any) => sql`${u.id} = 1`, users),
+    ).toBeNull();
+    expect(
+      evaluator.compileWhere((u: any, { sql }: any) => sql`1 = 1`, users),
+    ).toBeNull();
+  });
+
+  test("should compile orderBy callbacks", () => {
+    const compare = evaluator.compileOrderBy(
+      (u: any, { desc }: any) => [desc(u.id)],
+      users,
+    )!;
+
+    expect([alice, bob].sort(compare)).toEqual([bob, alice]);
+  });
+
+  test("should order nulls like the database", () => {
+    const sortByEmail = (databaseType: "sqlite" | "postgres" | "mysql") =>
+      [alice, bob].sort(
+        new QueryEvaluator(databaseType).compileOrderBy(
+          (u: any, { asc }: any) => [asc(u.email)],
+          users,
+        )!,
+      );
+
+    expect(sortByEmail("sqlite")).toEqual([bob, alice]);
+    expect(sortByEmail("mysql")).toEqual([bob, alice]);
+    expect(sortByEmail("postgres")).toEqual([alice, bob]);
+  });
+
+  test("should treat bare columns as ascending order", () => {
+    const compare = evaluator.compileOrderBy(users.username, users)!;
+
+    expect([bob, alice].sort(compare)).toEqual([alice, bob]);
+  });
+});
@@ -0,0 +1,306 @@
+import { Column, getTableColumns, is, type Table } from "drizzle-orm";
+
+type Predicate = (entity: any) => boolean;
+type Comparator = (a: any, b: any) => number;
+type OrderBySpec = { key: string; direction: "asc" | "desc" };
+
+/**
+ * Thrown internally when a filter uses something that cannot be evaluated in memory
+ */
+class UnsupportedExpressionError extends Error {}
+
+/**
+ * Evaluates Drizzle relational query filters against in-memory entities.
+ *
+ * Only the callback form of `where` and `orderBy` can be evaluated: the
+ * callback is invoked a second time with in-memory implementations of the
+ * operators it receives. Raw SQL and operators without an in-memory
+ * equivalent make the compile methods return null.
+ */
+export class QueryEvaluator {
+  /**
+   * @param databaseType Database whose ordering of nulls sorting follows
+   */
+  constructor(private databaseType: "sqlite" | "postgres" | "mysql") {}
+
+  /**
+   * Compile a `where` filter into a predicate over entities
+   */
+  compileWhere(where: unknown, table: Table): Predicate | null {
+    if (where === undefined) {
+      return () => true;
+    }
+
+    if (typeof where !== "function") {
+      return null;
+    }
+
+    const columnKeys = this.getColumnKeys(table);
+
+    try {
+      const condition = where(getTableColumns(table), this.createOperators());
+      if (condition === undefined) {
+        return () => true;
+      }
+
+      return this.toPredicate(condition, columnKeys);
+    } catch (error) {
+      if (error instanceof UnsupportedExpressionError) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Compile an `orderBy` clause into a comparator over entities
+   */
+  compileOrderBy(orderBy: unknown, table: Table): Comparator | null {
+    if (orderBy === undefined) {
+      return () => 0;
+    }
+
+    const columnKeys = this.getColumnKeys(table);
+
+    try {
+      const clause =
+        typeof orderBy === "function"
+          ? orderBy(getTableColumns(table), {
+              asc: (column: any) => this.toOrderBySpec(column, "asc", columnKeys),
+              desc: (column: any) =>
+                this.toOrderBySpec(column, "desc", columnKeys),
+            })
+          : orderBy;
+
+      const specs = (Array.isArray(clause) ? clause : [clause]).map((spec) =>
+        is(spec, Column) ? this.toOrderBySpec(spec, "asc", columnKeys) : spec,
+      );
+
+      for (const spec of specs) {
+        if (typeof spec?.key !== "string") {
+          throw new UnsupportedExpressionError();
+        }
+      }
+
+      return (a, b) => {
+        for (const { key, direction } of specs as OrderBySpec[]) {
+          const result = this.compareValues(a[key], b[key]);
+          if (result !== 0) {
+            return direction === "asc" ? result : -result;
+          }
+        }
+        return 0;
+      };
+    } catch (error) {
+      if (error instanceof UnsupportedExpressionError) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * In-memory counterparts of the operators Drizzle passes to `where` callbacks
+   */
+  private createOperators() {
+    const unsupported = () => {
+      throw new UnsupportedExpressionError();
+    };
+
+    const compare =
+      (check: (a: any, b: any) => boolean) =>
+      (left: any, right: any): any =>
+      (columnKeys: Map<Column, string>) => {
+        const l = this.resolve(left, columnKeys);
+        const r = this.resolve(right, columnKeys);
+        return (entity: any) => {
+          const a = l(entity);
+          const b = r(entity);
+          if (a == null || b == null) return false;
+          return check(this.normalize(a), this.normalize(b));
+        };
+      };
+
+    const like =
+      (caseInsensitive: boolean, negate: boolean) =>
+      (column: any, pattern: any): any =>
+      (columnKeys: Map<Column, string>) => {
+        const value = this.resolve(column, columnKeys);
+        const regex = this.likeToRegExp(String(pattern), caseInsensitive);
+        return (entity: any) => {
+          const v = value(entity);
+          if (v == null) return false;
+          return regex.test(String(v)) !== negate;
+        };
+      };
+
+    const inList =
+      (negate: boolean) =>
+      (column: any, values: any): any =>
+      (columnKeys: Map<Column, string>) => {
+        if (!Array.isArray(values)) unsupported();
+        const value = this.resolve(column, columnKeys);
+        const normalized = values.map((v: any) => this.normalize(v));
+        return (entity: any) => {
+          const v = value(entity);
+          if (v == null) return false;
+          return normalized.includes(this.normalize(v)) !== negate;
+        };
+      };
+
+    const range =
+      (negate: boolean) =>
+      (column: any, min: any, max: any): any =>
+      (columnKeys: Map<Column, string>) => {
+        const value = this.resolve(column, columnKeys);
+        return (entity: any) => {
+          const v = value(entity);
+          if (v == null) return false;
+          const n = this.normalize(v);
+          const inRange =
+            n >= this.normalize(min) && n <= this.normalize(max);
+          return inRange !== negate;
+        };
+      };
+
+    const combine =
+      (mode: "and" | "or") =>
+      (...conditions: any[]): any =>
+      (columnKeys: Map<Column, string>) => {
+        const predicates = conditions
+          .filter((condition) => condition !== undefined)
+          .map((condition) => this.toPredicate(condition, columnKeys));
+        return mode === "and"
+          ? (entity: any) => predicates.every((p) => p(entity))
+          : (entity: any) => predicates.some((p) => p(entity));
+      };
+
+    return {
+      eq: compare((a, b) => a === b),
+      ne: compare((a, b) => a !== b),
+      gt: compare((a, b) => a > b),
+      gte: compare((a, b) => a >= b),
+      lt: compare((a, b) => a < b),
+      lte: compare((a, b) => a <= b),
+      and: combine("and"),
+      or: combine("or"),
+      not:
+        (condition: any): any =>
+        (columnKeys: Map<Column, string>) => {
+          const predicate = this.toPredicate(condition, columnKeys);
+          return (entity: any) => !predicate(entity);
+        },
+      isNull:
+        (column: any): any =>
+        (columnKeys: Map<Column, string>) => {
+          const value = this.resolve(column, columnKeys);
+          return (entity: any) => value(entity) == null;
+        },
+      isNotNull:
+        (column: any): any =>
+        (columnKeys: Map<Column, string>) => {
+          const value = this.resolve(column, columnKeys);
+          return (entity: any) => value(entity) != null;
+        },
+      inArray: inList(false),
+      notInArray: inList(true),
+      between: range(false),
+      notBetween: range(true),
+      like: like(false, false),
+      notLike: like(false, true),
+      ilike: like(true, false),
+      notIlike: like(true, true),
+      exists: unsupported,
+      notExists: unsupported,
+      arrayContains: unsupported,
+      arrayContained: unsupported,
+      arrayOverlaps: unsupported,
+      sql: unsupported,
+    };
+  }
+
+  /**
+   * Turn a compiled condition into a predicate
+   */
+  private toPredicate(
+    condition: any,
+    columnKeys: Map<Column, string>,
+  ): Predicate {
+    if (typeof condition !== "function") {
+      // A raw SQL condition built outside of the callback's operators
+      throw new UnsupportedExpressionError();
+    }
+
+    return condition(columnKeys);
+  }
+
+  /**
+   * Resolve an operand into a getter: columns read from the entity, anything else is a literal
+   */
+  private resolve(
+    operand: any,
+    columnKeys: Map<Column, string>,
+  ): (entity: any) => any {
+    if (is(operand, Column)) {
+      const key = columnKeys.get(operand);
+      if (key === undefined) {
+        throw new UnsupportedExpressionError();
+      }
+      return (entity) => entity[key];
+    }
+
+    if (typeof operand === "object" && operand !== null && "getSQL" in operand) {
+      throw new UnsupportedExpressionError();
+    }
+
+    return () => operand;
+  }
+
+  private toOrderBySpec(
+    column: any,
+    direction: "asc" | "desc",
+    columnKeys: Map<Column, string>,
+  ): OrderBySpec {
+    const key = is(column, Column) ? columnKeys.get(column) : undefined;
+    if (key === undefined) {
+      throw new UnsupportedExpressionError();
+    }
+
+    return { key, direction };
+  }
+
+  private getColumnKeys(table: Table): Map<Column, string> {
+    const columnKeys = new Map<Column, string>();
+    for (const [key, column] of Object.entries(getTableColumns(table))) {
+      columnKeys.set(column, key);
+    }
+    return columnKeys;
+  }
+
+  /**
+   * Compare two values the way the database orders them: Postgres sorts nulls
+   * as larger than any value, SQLite and MySQL as smaller
+   */
+  private compareValues(a: any, b: any): number {
+    const nullOrder = this.databaseType === "postgres" ? 1 : -1;
+    if (a == null && b == null) return 0;
+    if (a == null) return nullOrder;
+    if (b == null) return -nullOrder;
+
+    const x = this.normalize(a);
+    const y = this.normalize(b);
+    return x < y ? -1 : x > y ? 1 : 0;
+  }
+
+  private normalize(value: any): any {
+    return value instanceof Date ? value.getTime() : value;
+  }
+
+  private likeToRegExp(pattern: string, caseInsensitive: boolean): RegExp {
+    const source = pattern
+      .replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+      .replace(/%/g, ".*")
+      .replace(/_/g, ".");
+    return new RegExp(`^${source}$`, caseInsensitive ? "is" : "s");
+  }
+}
@@ -0,0 +1,386 @@
+import {
+  describe,
+  it,
+  expect,
+  beforeAll,
+  afterAll,
+  beforeEach,
+} from "bun:test";
+import { asc, eq } from "drizzle-orm";
+import {
+  integer,
+  primaryKey,
+  sqliteTable,
+  text,
+  type BaseSQLiteDatabase,
+} from "drizzle-orm/sqlite-core";
+import { UnitOfWork } from "../uow";
+import {
+  ForeignKeyError,
+  NotNullError,
+  SaveError,
+  UniqueConstraintError,
+} from "../errors";
+import type { UnitOfWorkRepos } from "../types";
+import type { SqliteAdapter } from "./adapter";
+
+// Test schema
+const users = sqliteTable("test_users", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  name: text("name").notNull(),
+  email: text("email").notNull(),
+  age: integer("age"),
+});
+
+const posts = sqliteTable("test_posts", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  title: text("title").notNull(),
+  content: text("content"),
+  userId: integer("user_id").notNull(),
+});
+
+const memberships = sqliteTable(
+  "test_memberships",
+  {
+    orgId: integer("org_id").notNull(),
+    userId: integer("user_id").notNull(),
+    role: text("role").notNull(),
+  },
+  (t) => [primaryKey({ columns: [t.orgId, t.userId] })],
+);
+
+export const sqliteSuiteSchema = { users, posts, memberships };
+
+type SuiteDatabase = BaseSQLiteDatabase<any, any, typeof sqliteSuiteSchema>;
+
+export interface SqliteSuiteConnection {
+  /** Drizzle database created with `sqliteSuiteSchema` */
+  db: any;
+  adapter: SqliteAdapter;
+  /** Run raw SQL, possibly containing several statements */
+  exec(query: string): unknown;
+  close(): unknown;
+}
+
+/**
+ * Adapter tests shared by every SQLite driver. Each driver's test file calls
+ * this with a function opening an in-memory database.
+ */
+export function describeSqliteAdapter(
+  name: string,
+  connect: (
+    schema: typeof sqliteSuiteSchema,
+  ) => SqliteSuiteConnection | Promise<SqliteSuiteConnection>,
+) {
+  describe(name, () => {
+    let connection: SqliteSuiteConnection;
+    let db: any;
+    let adapter: SqliteAdapter;
+
+    function createUow() {
+      return new UnitOfWork(db, adapter) as UnitOfWork<SuiteDatabase> &
+        UnitOfWorkRepos<SuiteDatabase>;
+    }
+
+    beforeAll(async () => {
+      connection = await connect(sqliteSuiteSchema);
+      db = connection.db;
+      adapter = connection.adapter;
+    });
+
+    afterAll(async () => {
+      await connection.close();
+    });
+
+    beforeEach(async () => {
+      // Create test tables
+      await connection.exec(`
+        DROP TABLE IF EXISTS test_posts;
+        DROP TABLE IF EXISTS test_users;
+        DROP TABLE IF EXISTS test_memberships;
+
+        CREATE TABLE test_users (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          name TEXT NOT NULL,
+          email TEXT NOT NULL,
+          age INTEGER
+        );
+
+        CREATE TABLE test_posts (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          title TEXT NOT NULL,
+          content TEXT,
+          user_id INTEGER NOT NULL
+        );
+
+        CREATE TABLE test_memberships (
+          org_id INTEGER NOT NULL,
+          user_id INTEGER NOT NULL,
+          role TEXT NOT NULL,
+          PRIMARY KEY (org_id, user_id)
+        );
+      `);
+    });
+
+    it("should identify as sqlite database type", () => {
+      expect(adapter.getDatabaseType()).toBe("sqlite");
+      expect(adapter.getMaxParameters()).toBe(999);
+    });
+
+    it("should classify busy errors as retryable", () => {
+      const failedQuery = (cause: unknown) =>
+        new Error("Failed query", { cause });
+
+      expect(
+        adapter.isRetryableError(failedQuery({ code: "SQLITE_BUSY" })),
+      ).toBe(true);
+      // SQLITE_BUSY_SNAPSHOT, as reported by node:sqlite
+      expect(adapter.isRetryableError(failedQuery({ errcode: 517 }))).toBe(
+        true,
+      );
+      expect(
+        adapter.isRetryableError(failedQuery({ code: "SQLITE_CONSTRAINT" })),
+      ).toBe(false);
+    });
+
+    it("should throw the failing change of a unique violation", async () => {
+      const uow = createUow();
+      uow.users.create({ id: 1, name: "Alice", email: "alice@example.com" });
+      await uow.save();
+
+      const duplicate = createUow();
+      duplicate.users.create({ id: 1, name: "Bob", email: "bob@example.com" });
+      const error = await duplicate.save().catch((error) => error);
+
+      expect(error).toBeInstanceOf(UniqueConstraintError);
+      expect(error.tableName).toBe("users");
+      expect(error.primaryKey).toBe(1);
+      expect(error.changeSet.entity.name).toBe("Bob");
+    });
+
+    it("should classify constraint violations by extended result code", () => {
+      const failedQuery = (cause: unknown) =>
+        new Error("Failed query", { cause });
+
+      expect(
+        adapter.toSaveError(
+          failedQuery({ code: "SQLITE_CONSTRAINT_PRIMARYKEY" }),
+        ),
+      ).toBeInstanceOf(UniqueConstraintError);
+      // libsql
+      expect(
+        adapter.toSaveError(
+          failedQuery({
+            code: "SQLITE_CONSTRAINT",
+            extendedCode: "SQLITE_CONSTRAINT_FOREIGNKEY",
+          }),
+        ),
+      ).toBeInstanceOf(ForeignKeyError);
+      // node:sqlite
+      expect(
+        adapter.toSaveError(failedQuery({ errcode: 1299 })),
+      ).toBeInstanceOf(NotNullError);
+      expect(
+        adapter.toSaveError(failedQuery({ code: "SQLITE_BUSY" })).constructor,
+      ).toBe(SaveError);
+    });
+
+    it("should execute changesets in transaction", async () => {
+      const changeSets = [
+        {
+          tableName: "users",
+          entity: { name: "Alice", email: "alice@example.com", age: 25 },
+          state: "added",
+          changes: new Map(),
+        },
+        {
+          tableName: "users",
+          entity: { name: "Bob", email: "bob@example.com", age: 35 },
+          state: "added",
+          changes: new Map(),
+        },
+      ];
+
+      await adapter.executeChangeSets(changeSets as any);
+
+      // Verify the inserts
+      const result = await db.select().from(users).orderBy(asc(users.id));
+      expect(result).toHaveLength(2);
+      expect(result[0].name).toBe("Alice");
+      expect(result[1].name).toBe("Bob");
+    });
+
+    it("should handle updates and deletes in changesets", async () => {
+      await db.insert(users).values([
+        { id: 1, name: "Charlie", email: "charlie@example.com", age: 40 },
+        { id: 2, name: "David", email: "david@example.com", age: 50 },
+      ]);
+
+      const changeSets = [
+        {
+          tableName: "users",
+          entity: {
+            id: 1,
+            name: "Charlie Updated",
+            email: "charlie@example.com",
+            age: 41,
+          },
+          state: "modified",
+          changes: new Map<string, { old: any; new: any }>([
+            ["name", { old: "Charlie", new: "Charlie Updated" }],
+            ["age", { old: 40, new: 41 }],
+          ]),
+        },
+        {
+          tableName: "users",
+          entity: { id: 2 },
+          state: "deleted",
+          changes: new Map(),
+        },
+      ];
+
+      await adapter.executeChangeSets(changeSets as any);
+
+      const result = await db.select().from(users);
+      expect(result).toEqual([
+        { id: 1, name: "Charlie Updated", email: "charlie@example.com", age: 41 },
+      ]);
+    });
+
+    it("should rollback transaction on error", async () => {
+      const changeSets = [
+        {
+          tableName: "users",
+          entity: { name: "Eve", email: "eve@example.com", age: 30 },
+          state: "added",
+          changes: new Map(),
+        },
+        {
+          tableName: "invalid_table", // This will cause an error
+          entity: { id: 1 },
+          state: "added",
+          changes: new Map(),
+        },
+      ];
+
+      await expect(
+        adapter.executeChangeSets(changeSets as any),
+      ).rejects.toThrow();
+
+      // Verify no users were inserted due to rollback
+      const result = await db.select().from(users);
+      expect(result).toHaveLength(0);
+    });
+
+    it("should roll back statements that already ran when a later one fails", async () => {
+      await db
+        .insert(users)
+        .values({ id: 1, name: "Frank", email: "frank@example.com" });
+
+      const changeSets = [
+        {
+          tableName: "posts",
+          entity: { id: 1, title: "Hello", userId: 1 },
+          state: "added",
+          changes: new Map(),
+        },
+        {
+          tableName: "users",
+          entity: { id: 1, name: "Duplicate", email: "dup@example.com" },
+          state: "added",
+          changes: new Map(),
+        },
+      ];
+
+      await expect(
+        adapter.executeChangeSets(changeSets as any),
+      ).rejects.toThrow();
+
+      const result = await db.select().from(posts);
+      expect(result).toHaveLength(0);
+
+      // The connection is usable again after the rollback
+      await db.insert(posts).values({ id: 2, title: "After", userId: 1 });
+      expect(await db.select().from(posts)).toHaveLength(1);
+    });
+
+    it("should handle batch operations", async () => {
+      const values = Array.from({ length: 300 }, (_, i) => ({
+        name: `User ${i}`,
+        email: `user${i}@example.com`,
+        age: 20 + i,
+      }));
+
+      await adapter.executeInsert(users, values);
+
+      const result = await db.select().from(users);
+      expect(result).toHaveLength(300);
+    });
+
+    it("should read generated keys back on save", async () => {
+      const uow = createUow();
+      const alice = uow.users.create({
+        name: "Alice",
+        email: "alice@example.com",
+      });
+      const bob = uow.users.create({ name: "Bob", email: "bob@example.com" });
+
+      await uow.save();
+
+      expect(alice.id).toBe(1);
+      expect(bob.id).toBe(2);
+    });
+
+    it("should save tracked changes through a unit of work", async () => {
+      await db.insert(users).values(
+        Array.from({ length: 20 }, (_, i) => ({
+          name: `User ${i}`,
+          email: `user${i}@example.com`,
+          age: 20,
+        })),
+      );
+
+      const uow = createUow();
+      const all = await uow.users.findMany();
+      for (const user of all) {
+        user.age = user.id;
+      }
+      uow.users.delete((await uow.users.find({ id: 20 }))!);
+
+      await uow.save();
+
+      const result = await db.select().from(users).orderBy(asc(users.id));
+      expect(result).toHaveLength(19);
+      expect(result.every((user: any) => user.age === user.id)).toBe(true);
+    });
+
+    it("should find, update and delete rows with composite keys", async () => {
+      await db.insert(memberships).values([
+        { orgId: 1, userId: 1, role: "owner" },
+        { orgId: 1, userId: 2, role: "member" },
+        { orgId: 2, userId: 1, role: "member" },
+      ]);
+
+      const uow = createUow();
+      const found = await uow.memberships.find([
+        { orgId: 1, userId: 2 },
+        { orgId: 2, userId: 1 },
+      ]);
+      expect(found).toHaveLength(2);
+
+      const owner = await uow.memberships.find({ orgId: 1, userId: 1 });
+      owner!.role = "admin";
+      for (const membership of found) {
+        uow.memberships.delete(membership);
+      }
+
+      await uow.save();
+
+      const result = await db
+        .select()
+        .from(memberships)
+        .where(eq(memberships.orgId, 1));
+      expect(result).toEqual([{ orgId: 1, userId: 1, role: "admin" }]);
+    });
+  });
+}
@@ -1,12 +1,201 @@
+import { sql, type Column, type SQL, type Table } from "drizzle-orm";
 import { BaseDatabaseAdapter } from "../base-adapter";
-import { BaseSQLiteDatabase } from "drizzle-orm/sqlite-core";
+import {
+  BaseSQLiteDatabase,
+  getTableConfig,
+  type SQLiteTable,
+} from "drizzle-orm/sqlite-core";
+import type {
+  ChangeSet,
+  ConstraintViolation,
+  ForeignKeyReference,
+  LockOptions,
+  SessionOptions,
+  SessionTransaction,
+} from "../types";
 
+/**
+ * Extended result codes of constraint violations, by name and number
+ */
+const constraintViolations: Record<string, ConstraintViolation> = {
+  SQLITE_CONSTRAINT_UNIQUE: "unique",
+  SQLITE_CONSTRAINT_PRIMARYKEY: "unique",
+  SQLITE_CONSTRAINT_FOREIGNKEY: "foreignKey",
+  SQLITE_CONSTRAINT_NOTNULL: "notNull",
+  2067: "unique",
+  1555: "unique",
+  787: "foreignKey",
+  1299: "notNull",
+};
+
+/**
+ * Base adapter for SQLite drivers.
+ *
+ * Drizzle runs transactions of synchronous drivers (bun:sqlite,
+ * better-sqlite3) synchronously: an async callback is committed as soon as it
+ * returns its promise, so statements awaited inside it run outside the
+ * transaction and errors never roll it back. Changesets are therefore applied
+ * between explicit BEGIN / COMMIT / ROLLBACK statements on the connection,
+ * which behaves the same for synchronous and asynchronous drivers.
+ *
+ * SQLite has no row locks. Session transactions start with BEGIN IMMEDIATE,
+ * which takes the database's write lock up front, so rows read in them
+ * cannot be changed by another connection until the session ends.
+ */
 export abstract class SqliteAdapter extends BaseDatabaseAdapter {
-  constructor(db: BaseSQLiteDatabase<any, any, any, any>) {
+  protected override db: BaseSQLiteDatabase<any, any, any>;
+
+  constructor(db: BaseSQLiteDatabase<any, any, any>) {
     super(db);
+    this.db = db;
   }
 
   override getDatabaseType(): "sqlite" | "postgres" | "mysql" {
     return "sqlite";
   }
+
+  override async beginTransaction(): Promise<any> {
+    await this.db.run(sql`begin`);
+    return this.db;
+  }
+
+  override async commitTransaction(_tx: any): Promise<void> {
+    await this.db.run(sql`commit`);
+  }
+
+  override async rollbackTransaction(_tx: any): Promise<void> {
+    await this.db.run(sql`rollback`);
+  }
+
+  protected override async openSession(
+    _options: SessionOptions,
+  ): Promise<SessionTransaction> {
+    await this.db.run(sql`begin immediate`);
+
+    return {
+      tx: this.db,
+      end: async (commit) => {
+        await this.db.run(commit ? sql`commit` : sql`rollback`);
+      },
+    };
+  }
+
+  /**
+   * The write lock of the session transaction already covers every row
+   */
+  protected override async lockRows(
+    _tx: any,
+    _table: Table,
+    primaryKeys: any[],
+    _lock: LockOptions,
+  ): Promise<any[]> {
+    return primaryKeys;
+  }
+
+  override async executeInsert(table: Table, values: any[]): Promise<void> {
+    if (values.length === 0) return;
+
+    await this.executeBatchOperation(
+      values,
+      async (batch) => {
+        await this.db.insert(table as SQLiteTable).values(batch);
+      },
+      this.getInsertBatchSize(table),
+    );
+  }
+
+  override async executeUpdate(
+    table: Table,
+    id: any,
+    changes: Record<string, any>,
+  ): Promise<void> {
+    if (Object.keys(changes).length === 0) return;
+
+    await this.db
+      .update(table as SQLiteTable)
+      .set(changes)
+      .where(this.buildPrimaryKeyCondition(table, id));
+  }
+
+  override async executeDelete(table: Table, id: any): Promise<void> {
+    await this.db
+      .delete(table as SQLiteTable)
+      .where(this.buildPrimaryKeyCondition(table, id));
+  }
+
+  /**
+   * SQLITE_BUSY and its extended codes, raised when another connection holds
+   * a conflicting lock. node:sqlite only reports the numeric `errcode`.
+   */
+  override isRetryableError(error: unknown): boolean {
+    return this.getErrorChain(error).some(
+      (cause) =>
+        (typeof cause.code === "string" &&
+          cause.code.startsWith("SQLITE_BUSY")) ||
+        (cause.errcode & 0xff) === 5,
+    );
+  }
+
+  /**
+   * Extended SQLITE_CONSTRAINT codes, as a name or, from node:sqlite and
+   * libsql, as a number (`errcode` / `rawCode`)
+   */
+  protected override getConstraintViolation(
+    error: unknown,
+  ): ConstraintViolation | null {
+    for (const cause of this.getErrorChain(error)) {
+      const violation =
+        constraintViolations[cause.extendedCode ?? cause.code] ??
+        constraintViolations[cause.errcode ?? cause.rawCode];
+      if (violation) return violation;
+    }
+
+    return null;
+  }
+
+  /**
+   * SQLite does not specify the order of the rows RETURNING gives back, so
+   * entities created without a primary key are inserted one statement each
+   */
+  protected override async insertChangeSets(
+    tx: any,
+    table: Table,
+    changeSets: ChangeSet[],
+  ): Promise<void> {
+    const transient = changeSets.filter(
+      (changeSet) =>
+        !this.isPrimaryKeyComplete(
+          this.extractPrimaryKeyValue(table, changeSet.entity),
+        ),
+    );
+
+    await super.insertChangeSets(
+      tx,
+      table,
+      changeSets.filter((changeSet) => !transient.includes(changeSet)),
+    );
+
+    for (const changeSet of transient) {
+      await this.insertReturning(tx, table, [changeSet]);
+    }
+  }
+
+  protected override getCompositePrimaryKeyColumns(table: Table): Column[] {
+    return getTableConfig(table as SQLiteTable).primaryKeys.flatMap(
+      (primaryKey) => primaryKey.columns,
+    );
+  }
+
+  protected override getForeignKeys(table: Table): ForeignKeyReference[] {
+    return getTableConfig(table as SQLiteTable).foreignKeys.map((foreignKey) =>
+      foreignKey.reference(),
+    );
+  }
+
+  protected override async executeStatement(
+    tx: any,
+    query: SQL,
+  ): Promise<unknown> {
+    return tx.run(query);
+  }
 }
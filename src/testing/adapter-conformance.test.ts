@@ -0,0 +1,87 @@
+import { Database } from "bun:sqlite";
+import { createClient } from "@libsql/client";
+import { PGlite } from "@electric-sql/pglite";
+import { createConnection } from "mysql2/promise";
+import { drizzle as drizzleBunSqlite } from "drizzle-orm/bun-sqlite";
+import { drizzle as drizzleLibsql } from "drizzle-orm/libsql";
+import { drizzle as drizzlePglite } from "drizzle-orm/pglite";
+import { drizzle as drizzleMySql2 } from "drizzle-orm/mysql2";
+import { drizzle as drizzleProxy } from "drizzle-orm/sqlite-proxy";
+import { BunSQLiteAdapter } from "../bun-sqlite";
+import { LibSQLAdapter } from "../libsql";
+import { PgliteAdapter } from "../pglite";
+import { MySql2Adapter } from "../mysql2";
+import { InMemoryAdapter } from "../in-memory";
+import { describeAdapterConformance } from "./adapter-conformance";
+
+describeAdapterConformance("BunSQLiteAdapter", "sqlite", (schema) => {
+  const sqlite = new Database(":memory:");
+  const db = drizzleBunSqlite(sqlite, { schema });
+
+  return {
+    db,
+    adapter: new BunSQLiteAdapter(db),
+    exec: (query) => sqlite.run(query),
+    close: () => sqlite.close(),
+  };
+});
+
+describeAdapterConformance("LibSQLAdapter", "sqlite", (schema) => {
+  const client = createClient({ url: ":memory:" });
+  const db = drizzleLibsql(client, { schema });
+
+  return {
+    db,
+    adapter: new LibSQLAdapter(db),
+    exec: (query) => client.execute(query),
+    close: () => client.close(),
+  };
+});
+
+describeAdapterConformance("PgliteAdapter", "postgres", async (schema) => {
+  const client = new PGlite();
+  const db = drizzlePglite(client, { schema });
+
+  return {
+    db,
+    adapter: new PgliteAdapter(db),
+    exec: (query) => client.exec(query),
+    close: () => client.close(),
+  };
+});
+
+describeAdapterConformance(
+  "MySql2Adapter",
+  "mysql",
+  async (schema) => {
+    const connection = await createConnection({
+      uri: process.env.MYSQL_TEST_DB_URL,
+    });
+    const db = drizzleMySql2(connection, { schema, mode: "default" });
+
+    return {
+      db,
+      adapter: new MySql2Adapter(db),
+      exec: (query) => connection.query(query),
+      close: () => connection.end(),
+    };
+  },
+  { skip: !process.env.MYSQL_TEST_DB_URL },
+);
+
+describeAdapterConformance("InMemoryAdapter", "sqlite", (schema) => {
+  const db = drizzleProxy(
+    async () => {
+      throw new Error("The in-memory adapter must not query the database");
+    },
+    { schema },
+  );
+  const adapter = new InMemoryAdapter(db);
+
+  return {
+    db,
+    adapter,
+    rows: adapter,
+    close: () => {},
+  };
+});
@@ -0,0 +1,543 @@
+import {
+  describe,
+  it,
+  expect,
+  beforeAll,
+  afterAll,
+  beforeEach,
+} from "bun:test";
+import {
+  asc,
+  eq,
+  getTableColumns,
+  type Column,
+  type Table,
+} from "drizzle-orm";
+import * as sqlite from "drizzle-orm/sqlite-core";
+import * as pg from "drizzle-orm/pg-core";
+import * as mysql from "drizzle-orm/mysql-core";
+import { UnitOfWork } from "../uow";
+import { ConcurrencyConflictError } from "../errors";
+import type { UnitOfWorkOptions } from "../types";
+import type { BaseDatabaseAdapter } from "../base-adapter";
+
+export type ConformanceDialect = "sqlite" | "postgres" | "mysql";
+
+/**
+ * Tables the conformance suite runs against, one set per dialect. Databases
+ * handed to the suite must be created with the schema of their dialect.
+ */
+export const conformanceSchemas = {
+  sqlite: {
+    accounts: sqlite.sqliteTable("conformance_accounts", {
+      id: sqlite.integer("id").primaryKey(),
+      name: sqlite.text("name").notNull(),
+      balance: sqlite.integer("balance").notNull(),
+    }),
+    entries: sqlite.sqliteTable("conformance_entries", {
+      id: sqlite.integer("id").primaryKey({ autoIncrement: true }),
+      memo: sqlite.text("memo").notNull(),
+    }),
+    memberships: sqlite.sqliteTable(
+      "conformance_memberships",
+      {
+        orgId: sqlite.integer("org_id").notNull(),
+        userId: sqlite.integer("user_id").notNull(),
+        role: sqlite.text("role").notNull(),
+      },
+      (t) => [sqlite.primaryKey({ columns: [t.orgId, t.userId] })],
+    ),
+  },
+  postgres: {
+    accounts: pg.pgTable("conformance_accounts", {
+      id: pg.integer("id").primaryKey(),
+      name: pg.text("name").notNull(),
+      balance: pg.integer("balance").notNull(),
+    }),
+    entries: pg.pgTable("conformance_entries", {
+      id: pg.serial("id").primaryKey(),
+      memo: pg.text("memo").notNull(),
+    }),
+    memberships: pg.pgTable(
+      "conformance_memberships",
+      {
+        orgId: pg.integer("org_id").notNull(),
+        userId: pg.integer("user_id").notNull(),
+        role: pg.text("role").notNull(),
+      },
+      (t) => [pg.primaryKey({ columns: [t.orgId, t.userId] })],
+    ),
+  },
+  mysql: {
+    accounts: mysql.mysqlTable("conformance_accounts", {
+      id: mysql.int("id").primaryKey(),
+      name: mysql.varchar("name", { length: 255 }).notNull(),
+      balance: mysql.int("balance").notNull(),
+    }),
+    entries: mysql.mysqlTable("conformance_entries", {
+      id: mysql.serial("id").primaryKey(),
+      memo: mysql.varchar("memo", { length: 255 }).notNull(),
+    }),
+    memberships: mysql.mysqlTable(
+      "conformance_memberships",
+      {
+        orgId: mysql.int("org_id").notNull(),
+        userId: mysql.int("user_id").notNull(),
+        role: mysql.varchar("role", { length: 255 }).notNull(),
+      },
+      (t) => [mysql.primaryKey({ columns: [t.orgId, t.userId] })],
+    ),
+  },
+};
+
+const textType = { sqlite: "TEXT", postgres: "TEXT", mysql: "VARCHAR(255)" };
+const generatedKey = {
+  sqlite: "INTEGER PRIMARY KEY AUTOINCREMENT",
+  postgres: "SERIAL PRIMARY KEY",
+  mysql: "SERIAL PRIMARY KEY",
+};
+
+function createTableStatements(dialect: ConformanceDialect): string[] {
+  const text = textType[dialect];
+  return [
+    "DROP TABLE IF EXISTS conformance_accounts",
+    "DROP TABLE IF EXISTS conformance_entries",
+    "DROP TABLE IF EXISTS conformance_memberships",
+    `CREATE TABLE conformance_accounts (
+      id INTEGER PRIMARY KEY,
+      name ${text} NOT NULL,
+      balance INTEGER NOT NULL
+    )`,
+    `CREATE TABLE conformance_entries (
+      id ${generatedKey[dialect]},
+      memo ${text} NOT NULL
+    )`,
+    `CREATE TABLE conformance_memberships (
+      org_id INTEGER NOT NULL,
+      user_id INTEGER NOT NULL,
+      role ${text} NOT NULL,
+      PRIMARY KEY (org_id, user_id)
+    )`,
+  ];
+}
+
+export interface ConformanceConnection {
+  /** Drizzle database created with the dialect's `conformanceSchemas` entry */
+  db: any;
+  adapter: BaseDatabaseAdapter;
+  /** Run a single raw SQL statement, not needed when `rows` is given */
+  exec?(query: string): unknown;
+  close(): unknown;
+  /**
+   * Rows of the conformance tables read and written around the unit of work,
+   * for adapters that do not store them in the database behind `db`. The
+   * suite then empties the tables with `setRows` instead of running `exec`.
+   */
+  rows?: {
+    getRows(table: Table): Record<string, any>[];
+    setRows(table: Table, rows: Record<string, any>[]): unknown;
+  };
+}
+
+/**
+ * Conformance tests for database adapters. Run it against a custom adapter to
+ * check that saving created, modified and deleted entities, failed saves,
+ * version checks, locked rows and checkpoint saves behave like the built-in
+ * adapters:
+ *
+ * ```ts
+ * describeAdapterConformance("MyAdapter", "postgres", async (schema) => {
+ *   const db = drizzle(client, { schema });
+ *   return { db, adapter: new MyAdapter(db), exec: ..., close: ... };
+ * });
+ * ```
+ */
+export function describeAdapterConformance(
+  name: string,
+  dialect: ConformanceDialect,
+  connect: (
+    schema: (typeof conformanceSchemas)[ConformanceDialect],
+  ) => ConformanceConnection | Promise<ConformanceConnection>,
+  options: { skip?: boolean } = {},
+) {
+  const { accounts, entries, memberships } = conformanceSchemas[
+    dialect
+  ] as (typeof conformanceSchemas)["sqlite"];
+
+  describe.skipIf(options.skip ?? false)(`${name} conformance`, () => {
+    let connection: ConformanceConnection;
+    let db: any;
+
+    function createUow(options: UnitOfWorkOptions<any> = {}) {
+      return new UnitOfWork(db, connection.adapter, options) as any;
+    }
+
+    async function selectAll(
+      table: typeof accounts | typeof entries | typeof memberships,
+    ) {
+      const keys = table === memberships ? ["orgId", "userId"] : ["id"];
+      if (connection.rows) {
+        return connection.rows.getRows(table).sort((a, b) => {
+          const key = keys.find((key) => a[key] !== b[key]);
+          return key ? Number(a[key]) - Number(b[key]) : 0;
+        });
+      }
+
+      const columns: Record<string, Column> = getTableColumns(table);
+      return db
+        .select()
+        .from(table)
+        .orderBy(...keys.map((key) => asc(columns[key]!)));
+    }
+
+    async function insertRows(
+      table: typeof accounts | typeof memberships,
+      rows: Record<string, any>[],
+    ) {
+      if (connection.rows) {
+        connection.rows.setRows(table, [
+          ...connection.rows.getRows(table),
+          ...rows,
+        ]);
+        return;
+      }
+
+      await db.insert(table).values(rows);
+    }
+
+    /** Change the balance of an account as if someone else wrote it */
+    async function setBalance(id: number, balance: number) {
+      if (connection.rows) {
+        connection.rows.setRows(
+          accounts,
+          connection.rows
+            .getRows(accounts)
+            .map((row) => (row.id === id ? { ...row, balance } : row)),
+        );
+        return;
+      }
+
+      await db.update(accounts).set({ balance }).where(eq(accounts.id, id));
+    }
+
+    beforeAll(async () => {
+      connection = await connect(conformanceSchemas[dialect]);
+      db = connection.db;
+    });
+
+    afterAll(async () => {
+      await connection.close();
+    });
+
+    beforeEach(async () => {
+      if (connection.rows) {
+        for (const table of [accounts, entries, memberships]) {
+          connection.rows.setRows(table, []);
+        }
+      } else {
+        for (const statement of createTableStatements(dialect)) {
+          await connection.exec!(statement);
+        }
+      }
+      await insertRows(accounts, [
+        { id: 1, name: "alice", balance: 100 },
+        { id: 2, name: "bob", balance: 200 },
+      ]);
+    });
+
+    it("should report its dialect", () => {
+      expect(connection.adapter.getDatabaseType()).toBe(dialect);
+    });
+
+    it("should insert created entities", async () => {
+      const uow = createUow();
+      uow.accounts.create({ id: 3, name: "carol", balance: 300 });
+
+      await uow.save();
+
+      expect(await selectAll(accounts)).toEqual([
+        { id: 1, name: "alice", balance: 100 },
+        { id: 2, name: "bob", balance: 200 },
+        { id: 3, name: "carol", balance: 300 },
+      ]);
+    });
+
+    it("should assign generated keys to created entities", async () => {
+      const uow = createUow();
+      const first = uow.entries.create({ memo: "first" });
+      const second = uow.entries.create({ memo: "second" });
+
+      await uow.save();
+
+      expect(Number(first.id)).toBe(1);
+      expect(Number(second.id)).toBe(2);
+      expect((await selectAll(entries)).map((e: any) => e.memo)).toEqual([
+        "first",
+        "second",
+      ]);
+    });
+
+    it("should only write the columns that changed", async () => {
+      const uow = createUow();
+      const alice = await uow.accounts.find({ id: 1 });
+      alice.name = "alice cooper";
+
+      // Written by someone else after the entity was loaded
+      await setBalance(1, 150);
+
+      await uow.save();
+
+      expect((await selectAll(accounts))[0]).toEqual({
+        id: 1,
+        name: "alice cooper",
+        balance: 150,
+      });
+    });
+
+    it("should delete deleted entities", async () => {
+      const uow = createUow();
+      uow.accounts.delete(await uow.accounts.find({ id: 1 }));
+
+      await uow.save();
+
+      expect(await selectAll(accounts)).toEqual([
+        { id: 2, name: "bob", balance: 200 },
+      ]);
+    });
+
+    it("should not write entities created and deleted before saving", async () => {
+      const uow = createUow();
+      const carol = uow.accounts.create({ id: 3, name: "carol", balance: 0 });
+      uow.accounts.delete(carol);
+
+      await uow.save();
+
+      expect(await selectAll(accounts)).toHaveLength(2);
+    });
+
+    it("should overwrite or skip existing rows on conflict", async () => {
+      const uow = createUow();
+      uow.accounts.upsert({ id: 1, name: "alice cooper", balance: 150 });
+      uow.accounts.create(
+        { id: 2, name: "robert", balance: 0 },
+        { onConflict: "ignore" },
+      );
+      uow.accounts.upsert({ id: 3, name: "carol", balance: 300 });
+
+      await uow.save();
+
+      expect(await selectAll(accounts)).toEqual([
+        { id: 1, name: "alice cooper", balance: 150 },
+        { id: 2, name: "bob", balance: 200 },
+        { id: 3, name: "carol", balance: 300 },
+      ]);
+    });
+
+    it("should save more rows than fit in one statement", async () => {
+      // One INSERT holds getMaxParameters() / 3 accounts
+      const count = Math.floor(connection.adapter.getMaxParameters() / 3) + 10;
+      const uow = createUow();
+      for (let id = 3; id < count + 3; id++) {
+        uow.accounts.create({ id, name: `account ${id}`, balance: id });
+      }
+      await uow.save();
+
+      const all = await createUow().accounts.findMany();
+      const next = createUow();
+      for (const account of await next.accounts.findMany()) {
+        if (account.id % 2 === 0) {
+          next.accounts.delete(account);
+        } else {
+          account.balance = -account.id;
+        }
+      }
+      await next.save();
+
+      const rows = await selectAll(accounts);
+      expect(rows).toHaveLength(Math.ceil(all.length / 2));
+      expect(
+        rows.every((row: any) => row.id % 2 === 1 && row.balance === -row.id),
+      ).toBe(true);
+    }, 30_000);
+
+    it("should save and delete entities with composite keys", async () => {
+      await insertRows(memberships, [
+        { orgId: 1, userId: 1, role: "owner" },
+        { orgId: 1, userId: 2, role: "member" },
+        { orgId: 2, userId: 1, role: "member" },
+      ]);
+
+      const uow = createUow();
+      const owner = await uow.memberships.find({ orgId: 1, userId: 1 });
+      owner.role = "admin";
+      const member = await uow.memberships.find({ orgId: 2, userId: 1 });
+      member.role = "admin";
+      uow.memberships.delete(
+        await uow.memberships.find({ orgId: 1, userId: 2 }),
+      );
+
+      await uow.save();
+
+      expect(await selectAll(memberships)).toEqual([
+        { orgId: 1, userId: 1, role: "admin" },
+        { orgId: 2, userId: 1, role: "admin" },
+      ]);
+    });
+
+    it("should roll back every statement of a failed save", async () => {
+      const uow = createUow();
+      const alice = await uow.accounts.find({ id: 1 });
+      alice.balance = 0;
+      uow.entries.create({ memo: "written before the failure" });
+      uow.accounts.create({ id: 2, name: "duplicate", balance: 0 });
+
+      await expect(uow.save()).rejects.toThrow();
+
+      expect(await selectAll(entries)).toHaveLength(0);
+      expect(await selectAll(accounts)).toEqual([
+        { id: 1, name: "alice", balance: 100 },
+        { id: 2, name: "bob", balance: 200 },
+      ]);
+    });
+
+    it("should only change rows still at their loaded version", async () => {
+      const uow = createUow({ versionColumns: { accounts: "balance" } });
+      const alice = await uow.accounts.find({ id: 1 });
+      const bob = await uow.accounts.find({ id: 2 });
+      alice.name = "alice cooper";
+      uow.accounts.delete(bob);
+
+      await setBalance(2, 150);
+
+      const error = await uow.save().catch((error: unknown) => error);
+
+      expect(error).toBeInstanceOf(ConcurrencyConflictError);
+      expect(error.entities).toEqual([bob]);
+      expect(await selectAll(accounts)).toEqual([
+        { id: 1, name: "alice", balance: 100 },
+        { id: 2, name: "bob", balance: 150 },
+      ]);
+
+      const next = createUow({ versionColumns: { accounts: "balance" } });
+      (await next.accounts.find({ id: 1 })).name = "alice cooper";
+      await next.save();
+
+      expect((await selectAll(accounts))[0]).toEqual({
+        id: 1,
+        name: "alice cooper",
+        balance: 101,
+      });
+    });
+
+    it("should save rows locked by find()", async () => {
+      const uow = createUow();
+      const alice = await uow.accounts.find({ id: 1 }, { lock: "update" });
+      const [bob] = await uow.accounts.find(
+        { id: [2, 3] },
+        { lock: { mode: "share", noWait: true } },
+      );
+      alice.balance -= 50;
+      bob.balance += 50;
+
+      await uow.save();
+
+      expect(await selectAll(accounts)).toEqual([
+        { id: 1, name: "alice", balance: 50 },
+        { id: 2, name: "bob", balance: 250 },
+      ]);
+    });
+
+    it("should roll back the transaction of locked rows", async () => {
+      const uow = createUow();
+      const alice = await uow.accounts.find({ id: 1 }, { lock: "update" });
+      alice.balance = 0;
+      uow.accounts.create({ id: 2, name: "duplicate", balance: 0 });
+
+      await expect(uow.save()).rejects.toThrow();
+
+      const next = createUow();
+      await next.accounts.find({ id: 2 }, { lock: "update" });
+      await next.dispose();
+
+      expect(await selectAll(accounts)).toEqual([
+        { id: 1, name: "alice", balance: 100 },
+        { id: 2, name: "bob", balance: 200 },
+      ]);
+    });
+
+    it("should read and save in one session transaction", async () => {
+      const uow = createUow({
+        transaction: "session",
+        isolationLevel: "serializable",
+      });
+      const alice = await uow.accounts.find({ id: 1 });
+      const [bob] = await uow.accounts.findMany({
+        where: (account: any, { eq }: any) => eq(account.id, 2),
+      });
+      alice.balance += bob.balance;
+      uow.accounts.delete(bob);
+
+      await uow.save();
+
+      expect(await selectAll(accounts)).toEqual([
+        { id: 1, name: "alice", balance: 300 },
+      ]);
+    });
+
+    it("should roll back an unsaved session transaction on dispose()", async () => {
+      const uow = createUow({ transaction: "session" });
+      const alice = await uow.accounts.find({ id: 1 });
+      alice.balance = 0;
+
+      await uow.dispose();
+
+      expect((await selectAll(accounts))[0]).toEqual({
+        id: 1,
+        name: "alice",
+        balance: 100,
+      });
+    });
+
+    it("should save the changes made up to a checkpoint", async () => {
+      const uow = createUow();
+      const alice = await uow.accounts.find({ id: 1 });
+      alice.balance = 110;
+      const checkpoint = uow.setCheckpoint();
+      alice.balance = 120;
+      uow.accounts.create({ id: 3, name: "carol", balance: 300 });
+
+      await uow.save(checkpoint);
+
+      expect(await selectAll(accounts)).toEqual([
+        { id: 1, name: "alice", balance: 110 },
+        { id: 2, name: "bob", balance: 200 },
+      ]);
+
+      await uow.save();
+
+      expect(await selectAll(accounts)).toEqual([
+        { id: 1, name: "alice", balance: 120 },
+        { id: 2, name: "bob", balance: 200 },
+        { id: 3, name: "carol", balance: 300 },
+      ]);
+    });
+
+    it("should roll back to a savepoint checkpoint", async () => {
+      const uow = createUow();
+      const alice = await uow.accounts.find({ id: 1 });
+      alice.balance = 110;
+      const checkpoint = await uow.setCheckpoint({ savepoint: true });
+      alice.balance = 120;
+      uow.accounts.create({ id: 3, name: "carol", balance: 300 });
+      await uow.setCheckpoint({ savepoint: true });
+
+      expect((await uow.rollback(checkpoint)).error).toBeNull();
+      await uow.save();
+
+      expect(await selectAll(accounts)).toEqual([
+        { id: 1, name: "alice", balance: 110 },
+        { id: 2, name: "bob", balance: 200 },
+      ]);
+    });
+  });
+}
@@ -0,0 +1,8 @@
+export {
+  describeAdapterConformance,
+  conformanceSchemas,
+} from "./adapter-conformance";
+export type {
+  ConformanceConnection,
+  ConformanceDialect,
+} from "./adapter-conformance";
@@ -1,8 +1,12 @@
 import type {
+  BuildQueryResult,
+  Column,
+  DBQueryConfig,
   ExtractTablesWithRelations,
   GetColumnData,
   InferInsertModel,
   InferSelectModel,
+  SQL,
   Table,
   TableRelationalConfig,
   TablesRelationalConfig,
@@ -14,6 +18,7 @@ import type {
   MySqlQueryResultHKT,
   PreparedQueryHKTBase,
 } from "drizzle-orm/mysql-core";
+import type { DrizzowError } from "./errors";
 
 /**
  * Entity states for change tracking
@@ -34,6 +39,122 @@ export interface TrackedEntity<T = any> {
   originalValues: Map<string, any>;
   tableName: string;
   primaryKey: any;
+  /** What inserting an added entity does when its primary key already exists */
+  onConflict?: ConflictAction;
+}
+
+/**
+ * What an insert does when a row with the same primary key already exists:
+ * `"update"` overwrites the columns the entity was created with, `"ignore"`
+ * keeps the existing row
+ */
+export type ConflictAction = "update" | "ignore";
+
+/**
+ * Options of `create()`
+ */
+export interface CreateOptions {
+  onConflict?: ConflictAction;
+}
+
+/**
+ * A bulk update or delete queued by `updateWhere()` or `deleteWhere()`
+ */
+export interface BulkOperation {
+  type: "update" | "delete";
+  tableName: string;
+  /**
+   * Filter as passed by the caller: SQL, or a callback receiving the table's
+   * columns and Drizzle's operators
+   */
+  where: SQL | ((columns: any, operators: any) => SQL);
+  /** Values to set, for updates */
+  changes?: Record<string, any>;
+}
+
+/**
+ * Version column per table, for optimistic concurrency control
+ */
+export type VersionColumns<TSchema extends Record<string, any>> = {
+  [K in keyof TSchema as TSchema[K] extends Table
+    ? K
+    : never]?: keyof TSchema[K]["_"]["columns"] & string;
+};
+
+/**
+ * Options of a unit of work, passed to `drizzow()`
+ */
+export interface UnitOfWorkOptions<TDatabase extends AnyDrizzleDB> {
+  /**
+   * Column holding the version of each row, per table. Updates and deletes
+   * of these tables only apply to rows still at the version they were loaded
+   * with, and increment it; otherwise `save()` throws a
+   * `ConcurrencyConflictError`. Number and bigint columns are incremented,
+   * date columns set to the current time.
+   */
+  versionColumns?: VersionColumns<ExtractSchema<TDatabase>>;
+  /**
+   * `"flush"` (default) only runs `save()` in a transaction. `"session"`
+   * opens a transaction on the first read that every later read and the next
+   * `save()` run in, so writes are based on a consistent view of the data.
+   * `save()` commits it and `dispose()` rolls it back.
+   */
+  transaction?: "flush" | "session";
+  /** Isolation level of session transactions */
+  isolationLevel?: IsolationLevel;
+}
+
+/**
+ * Transaction isolation level. SQLite transactions are always serializable
+ * and ignore it.
+ */
+export type IsolationLevel =
+  | "read uncommitted"
+  | "read committed"
+  | "repeatable read"
+  | "serializable";
+
+/**
+ * Options of a session transaction, see `UnitOfWork.begin()`
+ */
+export interface SessionOptions {
+  isolationLevel?: IsolationLevel;
+}
+
+/**
+ * Options of `save()`
+ */
+export interface SaveOptions {
+  /**
+   * Run the save again in a new transaction when it fails with an error the
+   * adapter classifies as transient, such as a serialization failure, a
+   * deadlock or a busy SQLite database
+   */
+  retry?: RetryOptions;
+}
+
+/**
+ * How often and how late `save()` is retried
+ */
+export interface RetryOptions {
+  /** Maximum number of attempts, including the first */
+  attempts: number;
+  /**
+   * Milliseconds to wait before the first retry, doubled before each further
+   * retry, or a function of the number of the failed attempt. Defaults to 0.
+   */
+  backoff?: number | ((attempt: number) => number);
+}
+
+/**
+ * Options of `attach()`
+ */
+export interface AttachOptions {
+  /**
+   * `"unchanged"` (default) takes the values as the row's current content, so
+   * only later assignments are saved. `"modified"` saves every value given.
+   */
+  state?: "unchanged" | "modified";
 }
 
 /**
@@ -44,6 +165,22 @@ export interface ChangeSet {
   state: EntityState;
   changes: Map<string, { old: any; new: any }>;
   tableName: string;
+  /**
+   * Values generated by the database on insert (e.g. auto-increment keys),
+   * set by the adapter for entities created without a primary key
+   */
+  generatedValues?: Record<string, any>;
+  /** Conflict handling of an insert, see `ConflictAction` */
+  onConflict?: ConflictAction;
+  /**
+   * Version the row must still have for an update or delete to apply, for
+   * tables with a version column
+   */
+  version?: { key: string; value: any };
+  /** Set by the adapter when the row did not have the expected version */
+  versionConflict?: boolean;
+  /** The tracked entity, when `entity` is a copy of it at a checkpoint */
+  originalEntity?: any;
 }
 
 /**
@@ -51,6 +188,11 @@ export interface ChangeSet {
  */
 export interface RollbackResult {
   error: string | null;
+  /**
+   * The error behind `error`, e.g. a `CheckpointNotFoundError` or a
+   * `CheckpointOrderError`
+   */
+  cause?: DrizzowError;
 }
 
 /**
@@ -61,8 +203,16 @@ export interface Checkpoint {
   timestamp: number;
   entityStates: Map<any, TrackedEntity>;
   identityMapSnapshot: Map<string, Map<any, any>>;
+  /** Name of the savepoint set with the checkpoint, if any */
+  savepoint?: string;
 }
 
+/**
+ * Checkpoint backed by a savepoint of the session transaction, as returned by
+ * `setCheckpoint({ savepoint: true })`. Rolling back to it is asynchronous.
+ */
+export type SavepointCheckpoint = number & { readonly __savepoint: true };
+
 /**
  * Supported Drizzle database types
  */
@@ -76,19 +226,162 @@ export type AnyDrizzleDB<
 export type ExtractSchema<TDatabase> =
   TDatabase extends AnyDrizzleDB<infer TSchema> ? TSchema : never;
 
-export type FindParams<TTable extends TableRelationalConfig> = {
+type PrimaryKeyColumns<TTable extends TableRelationalConfig> = {
   [Col in keyof TTable["columns"] as TTable["columns"][Col]["_"]["isPrimaryKey"] extends true
     ? Col
-    : never]:
-    | GetColumnData<TTable["columns"][Col], "raw">
-    | GetColumnData<TTable["columns"][Col], "raw">[];
+    : never]: TTable["columns"][Col];
 };
 
-export type FindReturnType<Params, TTable extends Table> = Params extends {
-  [key: string]: any[];
+/**
+ * Primary key values of a table. Composite keys declared with `primaryKey()`
+ * in the table's extra config are not visible to the type system, so tables
+ * without a column-level primary key accept any of their columns and the
+ * full set of key columns is checked at runtime.
+ */
+export type PrimaryKeyValues<TTable extends TableRelationalConfig> =
+  keyof PrimaryKeyColumns<TTable> extends never
+    ? {
+        [Col in keyof TTable["columns"]]?: GetColumnData<
+          TTable["columns"][Col],
+          "raw"
+        >;
+      }
+    : {
+        [Col in keyof PrimaryKeyColumns<TTable>]: GetColumnData<
+          PrimaryKeyColumns<TTable>[Col],
+          "raw"
+        >;
+      };
+
+/**
+ * Value of a single-column primary key, or `never` for tables whose key has
+ * several columns or is not visible to the type system
+ */
+export type PrimaryKeyValue<TTable extends TableRelationalConfig> = {
+  [Col in keyof PrimaryKeyColumns<TTable>]: keyof PrimaryKeyColumns<TTable> extends Col
+    ? GetColumnData<PrimaryKeyColumns<TTable>[Col], "raw">
+    : never;
+}[keyof PrimaryKeyColumns<TTable>];
+
+export type FindParams<TTable extends TableRelationalConfig> =
+  | {
+      [Col in keyof PrimaryKeyValues<TTable>]:
+        | PrimaryKeyValues<TTable>[Col]
+        | Exclude<PrimaryKeyValues<TTable>[Col], undefined>[];
+    }
+  | PrimaryKeyValues<TTable>[];
+
+/**
+ * Row lock taken by `find()`: `"update"` for rows about to be changed,
+ * `"share"` for rows that must not change until the unit of work is saved
+ */
+export type LockMode = "update" | "share";
+
+/**
+ * Lock options of `find()`
+ */
+export interface LockOptions {
+  mode: LockMode;
+  /** Leave out rows locked by another transaction instead of waiting */
+  skipLocked?: boolean;
+  /** Fail instead of waiting for rows locked by another transaction */
+  noWait?: boolean;
+}
+
+/**
+ * Long-lived transaction opened by an adapter, which reads and the next
+ * flush run in until it is ended
+ */
+export interface SessionTransaction {
+  /** What statements are built on, as in `runInTransaction` */
+  tx: any;
+  /** Commit or roll back the transaction */
+  end(commit: boolean): Promise<void>;
 }
-  ? InferSelectModel<TTable>[]
-  : InferSelectModel<TTable> | undefined;
+
+/**
+ * Foreign key of a table: its `columns` reference `foreignColumns` of
+ * `foreignTable`
+ */
+export interface ForeignKeyReference {
+  columns: Column[];
+  foreignTable: Table;
+  foreignColumns: Column[];
+}
+
+/**
+ * Kind of constraint a failed write violated, which selects the `SaveError`
+ * subclass `save()` throws
+ */
+export type ConstraintViolation = "unique" | "foreignKey" | "notNull";
+
+/**
+ * Options for repository find() calls
+ */
+export type FindOptions<
+  TSchema extends TablesRelationalConfig,
+  TTable extends TableRelationalConfig,
+> = {
+  with?: DBQueryConfig<"many", false, TSchema, TTable>["with"];
+  /**
+   * Lock the rows until the unit of work is saved or cleared. Opens a
+   * transaction that the following reads and `save()` run in.
+   */
+  lock?: LockMode | LockOptions;
+};
+
+export type FindResult<
+  TSchema extends TablesRelationalConfig,
+  TTable extends TableRelationalConfig,
+  TOptions,
+> = TOptions extends { with: infer TWith extends Record<string, unknown> }
+  ? BuildQueryResult<TSchema, TTable, { with: TWith }>
+  : BuildQueryResult<TSchema, TTable, true>;
+
+/**
+ * Config for repository findMany() calls
+ */
+export type FindManyConfig<
+  TSchema extends TablesRelationalConfig,
+  TTable extends TableRelationalConfig,
+> = {
+  /**
+   * Filter of the query. Built with the operators passed to the callback,
+   * loaded entities are matched by their unsaved values; other filters only
+   * see the values saved in the database.
+   */
+  where?: DBQueryConfig<"many", true, TSchema, TTable>["where"];
+  orderBy?: DBQueryConfig<"many", true, TSchema, TTable>["orderBy"];
+  limit?: number;
+  with?: DBQueryConfig<"many", true, TSchema, TTable>["with"];
+
+  /**
+   * Include entities created in this unit of work that match the filter.
+   * Requires `where` and `orderBy` to use the operators passed to their callbacks.
+   */
+  includeAdded?: boolean;
+};
+
+/**
+ * Filter of updateWhere() and deleteWhere(): SQL, or a callback as in
+ * findMany()
+ */
+export type BulkWhere<
+  TSchema extends TablesRelationalConfig,
+  TTable extends TableRelationalConfig,
+> = NonNullable<FindManyConfig<TSchema, TTable>["where"]>;
+
+export type FindReturnType<
+  Params,
+  TTable extends Table,
+  TResult = InferSelectModel<TTable>,
+> = Params extends any[]
+  ? TResult[]
+  : Params extends {
+        [key: string]: any[];
+      }
+    ? TResult[]
+    : TResult | undefined;
 
 export type UnitOfWorkRepos<
   TDatabase extends AnyDrizzleDB,
@@ -100,17 +393,64 @@ export type UnitOfWorkRepos<
   : {
       [K in keyof TSchema]: K extends keyof TFullSchema
         ? {
-            find: <Params = FindParams<TSchema[K]>>(
+            find: <
+              Params extends FindParams<TSchema[K]>,
+              TOptions extends FindOptions<TSchema, TSchema[K]> = {},
+            >(
               params: Params,
-            ) => Promise<FindReturnType<Params, TFullSchema[K]>>;
+              options?: TOptions,
+            ) => Promise<
+              FindReturnType<
+                Params,
+                TFullSchema[K],
+                FindResult<TSchema, TSchema[K], TOptions>
+              >
+            >;
+            findMany: <
+              TConfig extends FindManyConfig<TSchema, TSchema[K]>,
+            >(
+              config?: TConfig,
+            ) => Promise<FindResult<TSchema, TSchema[K], TConfig>[]>;
             create: (
               v: InferInsertModel<TFullSchema[K]>,
+              options?: CreateOptions,
+            ) => InferSelectModel<TFullSchema[K]>;
+            upsert: (
+              v: InferInsertModel<TFullSchema[K]>,
+            ) => InferSelectModel<TFullSchema[K]>;
+            findOrCreate: (
+              v: InferInsertModel<TFullSchema[K]>,
+            ) => Promise<InferSelectModel<TFullSchema[K]>>;
+            attach: (
+              v: PrimaryKeyValues<TSchema[K]> &
+                Partial<InferSelectModel<TFullSchema[K]>>,
+              options?: AttachOptions,
+            ) => InferSelectModel<TFullSchema[K]>;
+            reference: (
+              params:
+                | PrimaryKeyValues<TSchema[K]>
+                | PrimaryKeyValue<TSchema[K]>,
             ) => InferSelectModel<TFullSchema[K]>;
             delete: (v: InferSelectModel<TFullSchema[K]>) => void;
+            updateWhere: (
+              where: BulkWhere<TSchema, TSchema[K]>,
+              changes: Partial<InferInsertModel<TFullSchema[K]>>,
+            ) => void;
+            deleteWhere: (where: BulkWhere<TSchema, TSchema[K]>) => void;
           }
         : {};
     };
 
+/**
+ * Options of a relational `findMany` query issued by the unit of work
+ */
+export interface FindManyQuery {
+  where?: any;
+  orderBy?: any;
+  limit?: number;
+  with?: Record<string, any>;
+}
+
 /**
  * Database adapter interface
  */
@@ -1,19 +1,37 @@
 import {
   EntityState,
   type AnyDrizzleDB,
+  type AttachOptions,
+  type BulkOperation,
+  type ChangeSet,
+  type CreateOptions,
   type ExtractSchema,
   type RollbackResult,
   type TrackedEntity,
+  type LockMode,
+  type IsolationLevel,
+  type LockOptions,
+  type RetryOptions,
+  type SaveOptions,
+  type SavepointCheckpoint,
+  type SessionOptions,
+  type UnitOfWorkOptions,
 } from "./types";
+import {
+  CheckpointNotFoundError,
+  CheckpointOrderError,
+  DrizzowError,
+} from "./errors";
 import { IdentityMap } from "./identity-map";
 import { ChangeTracker } from "./change-tracker";
 import { ProxyManager } from "./proxy";
 import { CheckpointManager } from "./checkpoint-manager";
+import { QueryEvaluator } from "./query-evaluator";
 import type { BaseDatabaseAdapter } from "./base-adapter";
 import {
   aliasedTableColumn,
   getOperators,
-  inArray,
+  getTableColumns,
   sql,
   type DBQueryConfig,
   type Table,
@@ -33,8 +51,24 @@ export class UnitOfWork<
   private proxyManager: ProxyManager;
   checkpointManager: CheckpointManager;
   private adapter: BaseDatabaseAdapter;
+  private queryEvaluator: QueryEvaluator;
+  private bulkOperations: BulkOperation[] = [];
+  // Number of bulk operations queued when each checkpoint was set
+  private bulkOperationCounts = new Map<number, number>();
+  // Version column key per table key, for optimistic concurrency control
+  private versionColumns = new Map<string, string>();
+  // Whether reads run in a session transaction, see UnitOfWorkOptions
+  private sessionMode: boolean;
+  private isolationLevel: IsolationLevel | undefined;
+  // Rollback of the session transaction started by clear(), awaited by the
+  // next call that uses the database
+  private sessionRollback: Promise<void> | null = null;
 
-  constructor(db: TDatabase, adapter: BaseDatabaseAdapter) {
+  constructor(
+    db: TDatabase,
+    adapter: BaseDatabaseAdapter,
+    options: UnitOfWorkOptions<TDatabase> = {},
+  ) {
     this.db = db;
     this.schema = db._.fullSchema as never;
 
@@ -51,32 +85,69 @@ export class UnitOfWork<
       this.changeTracker,
       this.identityMap,
     );
+    this.queryEvaluator = new QueryEvaluator(adapter.getDatabaseType());
+    this.sessionMode = options.transaction === "session";
+    this.isolationLevel = options.isolationLevel;
+
+    for (const [table, columnKey] of Object.entries(
+      options.versionColumns ?? {},
+    )) {
+      this.assertVersionColumn(table, columnKey as string);
+      this.versionColumns.set(table, columnKey as string);
+    }
 
     for (const key of Object.keys(db.query)) {
       (this as any)[key] = {
-        find: (param: any) => this.find(key, param),
-        create: (data: any) => this.create(key, data),
+        find: (param: any, options?: any) => this.find(key, param, options),
+        findMany: (config?: any) => this.findMany(key, config),
+        create: (data: any, options?: CreateOptions) =>
+          this.create(key, data, options),
+        upsert: (data: any) => this.upsert(key, data),
+        findOrCreate: (data: any) => this.findOrCreate(key, data),
+        attach: (data: any, options?: AttachOptions) =>
+          this.attach(key, data, options),
+        reference: (param: any) => this.reference(key, param),
         delete: (entity: any) => this.deleteEntity(key, entity),
+        updateWhere: (where: any, changes: any) =>
+          this.updateWhere(key, where, changes),
+        deleteWhere: (where: any) => this.deleteWhere(key, where),
       };
     }
   }
 
-  private async find(table: string, param: { [pk: string]: any }) {
-    const paramValues = Object.values(param);
-    if (paramValues.length > 1) {
-      throw new Error("More than 1 primary key supplied");
-    }
-    const pkValue = paramValues[0];
-    if (pkValue === undefined || pkValue === null) {
-      throw new Error("Primary key cannot be null or undefined");
+  private async find(
+    table: string,
+    param: { [pk: string]: any } | { [pk: string]: any }[],
+    options: {
+      with?: Record<string, any>;
+      lock?: LockMode | LockOptions;
+    } = {},
+  ) {
+    const tableSchema = this.schema[table];
+    if (!tableSchema) {
+      throw new Error(`Table '${table}' not found in schema`);
     }
 
+    const lock = this.resolveLockOptions(options.lock);
+
+    const { pkValue, isMany } = this.resolvePrimaryKeyParams(
+      table,
+      tableSchema,
+      param,
+    );
+
     let pksToQuery = [];
     let results = [];
 
-    const isMany = Array.isArray(pkValue);
+    const withConfig = options.with;
 
-    if (isMany) {
+    if (withConfig || lock) {
+      if (withConfig) this.assertTrackableRelations(withConfig);
+      // Relations always come from the database and locks are taken there,
+      // so every key is queried. Rows already in the identity map are still
+      // merged by wrapQueryResults and wrapRelationalResults.
+      pksToQuery = isMany ? pkValue : [pkValue];
+    } else if (isMany) {
       const cache = this.identityMap.getMany(table, pkValue);
       if (cache === undefined) {
         pksToQuery = pkValue;
@@ -95,24 +166,47 @@ export class UnitOfWork<
     }
 
     if (pksToQuery.length > 0) {
-      // Get the primary key column from the table schema
-      const tableSchema = this.schema[table]!;
-      const pkColumn = this.adapter.getPrimaryKeyColumn(tableSchema);
-
-      if (!pkColumn) {
-        throw new Error(`No primary key found for table ${table}`);
+      if (lock || this.sessionMode) {
+        await this.ensureSession();
       }
 
-      const fetched = await this.db.query[table]?.findMany({
-        where: inArray(pkColumn, pksToQuery),
-      });
-      if (fetched !== undefined && fetched.length > 0) {
-        const wrapped = this.proxyManager.wrapQueryResults(
-          fetched,
-          this.schema[table],
-        );
+      const fetched = await this.adapter.findByPrimaryKeys(
+        tableSchema,
+        pksToQuery,
+        withConfig,
+        lock,
+      );
+      if (fetched.length > 0) {
+        const wrapped = withConfig
+          ? this.proxyManager.wrapRelationalResults(
+              fetched,
+              tableSchema,
+              withConfig,
+            )
+          : this.proxyManager.wrapQueryResults(fetched, tableSchema);
         results.push(...wrapped);
       }
+
+      if (withConfig || lock) {
+        // Entities created in this unit of work are not in the database yet,
+        // so they are returned with empty relations and without a lock
+        for (const pk of pksToQuery) {
+          const cached = this.identityMap.get(table, pk);
+          if (!cached || results.includes(cached)) continue;
+          // Loaded entities missing from a locking read were skipped or deleted
+          if (
+            lock &&
+            this.changeTracker.getState(cached) !== EntityState.Added
+          ) {
+            continue;
+          }
+
+          if (withConfig) {
+            this.proxyManager.attachRelations(cached, tableSchema, withConfig);
+          }
+          results.push(cached);
+        }
+      }
     }
 
     results = results.filter((entity) => {
@@ -127,7 +221,270 @@ export class UnitOfWork<
     return results[0];
   }
 
-  private create(table: string, data: any) {
+  /**
+   * Open a session transaction unless one is already open
+   */
+  private async ensureSession() {
+    await this.settleSessionRollback();
+    if (!this.adapter.hasSession()) {
+      await this.adapter.beginSession({ isolationLevel: this.isolationLevel });
+    }
+  }
+
+  private resolveLockOptions(
+    lock: LockMode | LockOptions | undefined,
+  ): LockOptions | undefined {
+    if (lock === undefined) return undefined;
+
+    const options = typeof lock === "string" ? { mode: lock } : lock;
+    if (options.skipLocked && options.noWait) {
+      throw new Error("A lock cannot use both skipLocked and noWait");
+    }
+
+    return options;
+  }
+
+  /**
+   * Turn find() params into primary key values as stored in the identity map:
+   * single values for single-column keys, arrays in column order for composite keys
+   */
+  private resolvePrimaryKeyParams(
+    table: string,
+    tableSchema: Table,
+    param: { [pk: string]: any } | { [pk: string]: any }[],
+  ): { pkValue: any; isMany: boolean } {
+    const pkKeys = Object.keys(this.adapter.getPrimaryKeyColumns(tableSchema));
+    if (pkKeys.length === 0) {
+      throw new Error(`No primary key found for table ${table}`);
+    }
+
+    if (Array.isArray(param)) {
+      return {
+        pkValue: param.map((p) => this.toPrimaryKeyValue(table, pkKeys, p)),
+        isMany: true,
+      };
+    }
+
+    if (pkKeys.length === 1) {
+      const paramValues = Object.values(param);
+      if (paramValues.length > 1) {
+        throw new Error("More than 1 primary key supplied");
+      }
+      const pkValue = paramValues[0];
+      if (pkValue === undefined || pkValue === null) {
+        throw new Error("Primary key cannot be null or undefined");
+      }
+
+      return { pkValue, isMany: Array.isArray(pkValue) };
+    }
+
+    this.assertPrimaryKeyParams(table, pkKeys, param);
+
+    const columnValues = pkKeys.map((key) => param[key]);
+    const arrayCount = columnValues.filter(Array.isArray).length;
+
+    if (arrayCount === 0) {
+      return {
+        pkValue: this.toPrimaryKeyValue(table, pkKeys, param),
+        isMany: false,
+      };
+    }
+
+    const length = columnValues[0]?.length;
+    if (
+      arrayCount !== pkKeys.length ||
+      columnValues.some((values) => values.length !== length)
+    ) {
+      throw new Error(
+        `Composite primary key values for table '${table}' must be all single values or all arrays of the same length`,
+      );
+    }
+
+    // Zip per-column arrays into one composite key per entity
+    const pkValue = [];
+    for (let i = 0; i < length; i++) {
+      pkValue.push(
+        this.toPrimaryKeyValue(
+          table,
+          pkKeys,
+          Object.fromEntries(pkKeys.map((key) => [key, param[key][i]])),
+        ),
+      );
+    }
+
+    return { pkValue, isMany: true };
+  }
+
+  private toPrimaryKeyValue(
+    table: string,
+    pkKeys: string[],
+    param: { [pk: string]: any },
+  ): any {
+    this.assertPrimaryKeyParams(table, pkKeys, param);
+
+    const values = pkKeys.map((key) => param[key]);
+    if (values.some((value) => value === undefined || value === null)) {
+      throw new Error("Primary key cannot be null or undefined");
+    }
+
+    return values.length === 1 ? values[0] : values;
+  }
+
+  private assertPrimaryKeyParams(
+    table: string,
+    pkKeys: string[],
+    param: { [pk: string]: any },
+  ) {
+    for (const key of Object.keys(param)) {
+      if (!pkKeys.includes(key)) {
+        throw new Error(
+          `'${key}' is not a primary key column of table '${table}'`,
+        );
+      }
+    }
+
+    const missing = pkKeys.filter((key) => !(key in param));
+    if (missing.length > 0) {
+      throw new Error(
+        `Missing primary key column(s) ${missing.join(", ")} for table '${table}'`,
+      );
+    }
+  }
+
+  private async findMany(
+    table: string,
+    config: {
+      where?: any;
+      orderBy?: any;
+      limit?: number;
+      with?: Record<string, any>;
+      includeAdded?: boolean;
+    } = {},
+  ) {
+    const tableSchema = this.schema[table];
+    if (!tableSchema) {
+      throw new Error(`Table '${table}' not found in schema`);
+    }
+
+    const { where, orderBy, limit, includeAdded } = config;
+    const withConfig = config.with;
+    if (withConfig) {
+      this.assertTrackableRelations(withConfig);
+    }
+
+    const matchesWhere = this.queryEvaluator.compileWhere(where, tableSchema);
+    const compareOrder = this.queryEvaluator.compileOrderBy(
+      orderBy,
+      tableSchema,
+    );
+    if (includeAdded && (!matchesWhere || !compareOrder)) {
+      throw new Error(
+        `Cannot evaluate the filter for '${table}' in memory. ` +
+          `Build 'where' and 'orderBy' with the operators passed to their callbacks to use includeAdded.`,
+      );
+    }
+
+    // Deleted rows are dropped after the query, so fetch enough to still fill the limit
+    const pendingDeletes = this.changeTracker
+      .getByState(EntityState.Deleted)
+      .filter((tracked) => tracked.tableName === table).length;
+    // Loaded entities are matched by their unsaved values when the filter
+    // can be evaluated in memory, so modified ones may be dropped as well
+    const modified =
+      matchesWhere && compareOrder
+        ? this.changeTracker
+            .getByState(EntityState.Modified)
+            .filter((tracked) => tracked.tableName === table)
+            .map((tracked) => tracked.entity)
+        : [];
+
+    if (this.sessionMode) {
+      await this.ensureSession();
+    }
+
+    const fetched = await this.adapter.findMany(tableSchema, {
+      where,
+      orderBy,
+      limit:
+        limit === undefined
+          ? undefined
+          : limit + pendingDeletes + modified.length,
+      with: withConfig,
+    });
+
+    let results: any[] = withConfig
+      ? this.proxyManager.wrapRelationalResults(fetched, tableSchema, withConfig)
+      : this.proxyManager.wrapQueryResults(fetched, tableSchema);
+
+    results = results.filter(
+      (entity) =>
+        this.changeTracker.getState(entity) !== EntityState.Deleted &&
+        (!modified.includes(entity) || matchesWhere!(entity)),
+    );
+
+    const matching = modified.filter(
+      (entity) => !results.includes(entity) && matchesWhere!(entity),
+    );
+    if (matching.length > 0 && withConfig) {
+      // Their relations were not part of the query's results
+      const related = await this.adapter.findByPrimaryKeys(
+        tableSchema,
+        matching.map((entity) =>
+          this.adapter.extractPrimaryKeyValue(tableSchema, entity),
+        ),
+        withConfig,
+      );
+      this.proxyManager.wrapRelationalResults(related, tableSchema, withConfig);
+    }
+    results.push(...matching);
+
+    if (includeAdded) {
+      const added = this.changeTracker
+        .getByState(EntityState.Added)
+        .filter(
+          (tracked) =>
+            tracked.tableName === table &&
+            !results.includes(tracked.entity) &&
+            matchesWhere!(tracked.entity),
+        )
+        .map((tracked) => tracked.entity);
+
+      if (withConfig) {
+        for (const entity of added) {
+          this.proxyManager.attachRelations(entity, tableSchema, withConfig);
+        }
+      }
+
+      results.push(...added);
+    }
+
+    if ((includeAdded || modified.length > 0) && orderBy !== undefined) {
+      results.sort(compareOrder!);
+    }
+
+    return limit === undefined ? results : results.slice(0, limit);
+  }
+
+  /**
+   * Relations are tracked as full rows, so partial selections are rejected
+   */
+  private assertTrackableRelations(withConfig: Record<string, any>) {
+    for (const [name, config] of Object.entries(withConfig)) {
+      if (typeof config !== "object" || config === null) continue;
+
+      if (config.columns !== undefined || config.extras !== undefined) {
+        throw new Error(
+          `Relation '${name}' cannot use 'columns' or 'extras': only full rows can be tracked`,
+        );
+      }
+
+      if (config.with) {
+        this.assertTrackableRelations(config.with);
+      }
+    }
+  }
+
+  private create(table: string, data: any, options: CreateOptions = {}) {
     // Get the table instance from schema
     const tableInstance = this.schema[table];
     if (!tableInstance) {
@@ -142,32 +499,191 @@ export class UnitOfWork<
       tableInstance,
       entity,
     );
+    const hasPrimaryKey = this.adapter.isPrimaryKeyComplete(primaryKey);
 
-    // Require primary key for create operations
-    if (primaryKey === null || primaryKey === undefined) {
+    // Conflicts are detected on the primary key, so it has to be known
+    if (options.onConflict && !hasPrimaryKey) {
       throw new Error(
-        `Cannot create entity in table '${table}' without providing a primary key. ` +
-          `Please provide all primary key fields when creating new entities.`,
+        `Cannot create an entity of '${table}' with onConflict without its primary key`,
       );
     }
 
-    const existing = this.identityMap.get(table, primaryKey);
-    if (existing) {
-      const state = this.changeTracker.getState(existing);
-      if (state !== EntityState.Deleted) {
-        throw new Error(`Entity with primary key ${primaryKey} already exists`);
+    const versionKey = this.versionColumns.get(table);
+    if (versionKey) {
+      // A blind write would overwrite the version of an existing row
+      if (options.onConflict) {
+        throw new Error(
+          `Cannot create an entity of '${table}' with onConflict because the table has a version column`,
+        );
+      }
+      entity[versionKey] ??= this.getInitialVersion(table, versionKey);
+    }
+
+    if (hasPrimaryKey) {
+      const existing = this.identityMap.get(table, primaryKey);
+      if (existing) {
+        const state = this.changeTracker.getState(existing);
+        if (state !== EntityState.Deleted) {
+          throw new Error(
+            `Entity with primary key ${primaryKey} already exists`,
+          );
+        }
       }
     }
 
     // Create a proxy for the entity and mark it as added
-    const proxy = this.proxyManager.createNewEntityProxy(entity, tableInstance);
+    const proxy = this.proxyManager.createNewEntityProxy(
+      entity,
+      tableInstance,
+      options.onConflict,
+    );
 
-    // Register the proxy in the identity map
-    this.identityMap.register(table, primaryKey, proxy);
+    // Entities without a primary key are transient: the database generates
+    // their key on save(), after which they are registered in the identity map
+    if (hasPrimaryKey) {
+      this.identityMap.register(table, primaryKey, proxy);
+    }
 
     return proxy;
   }
 
+  /**
+   * Write an entity without reading it first. An entity with the same primary
+   * key in the identity map is updated with `data`; otherwise a new entity is
+   * inserted with `INSERT ... ON CONFLICT DO UPDATE`, overwriting the columns
+   * in `data` if the row exists. Columns not in `data` stay unset on the
+   * returned entity.
+   */
+  private upsert(table: string, data: any) {
+    const existing = this.findTracked(table, data);
+    if (existing) {
+      Object.assign(existing, data);
+      return existing;
+    }
+
+    return this.create(table, data, { onConflict: "update" });
+  }
+
+  /**
+   * Return the entity with the primary key in `data` from the identity map or
+   * the database, creating it from `data` if neither has it
+   */
+  private async findOrCreate(table: string, data: any) {
+    const existing =
+      this.findTracked(table, data) ??
+      (await this.find(table, this.pickPrimaryKey(table, data)));
+
+    return existing ?? this.create(table, data);
+  }
+
+  /**
+   * Track an entity stored in the database without loading it. `data` holds
+   * its primary key and any columns whose value is known; the other columns
+   * read as undefined. Assigning columns of the returned entity saves them
+   * with an UPDATE on `save()`, as for entities from `find()`.
+   *
+   * An entity with the same primary key in the identity map is returned
+   * instead, and `data` is ignored.
+   */
+  private attach(table: string, data: any, options: AttachOptions = {}) {
+    const tableInstance = this.schema[table]!;
+    const existing = this.findTracked(table, data);
+    if (existing) {
+      return existing;
+    }
+
+    const primaryKey = this.adapter.extractPrimaryKeyValue(tableInstance, data);
+    if (this.identityMap.get(table, primaryKey) !== undefined) {
+      throw new Error(
+        `Entity with primary key ${primaryKey} was deleted in this unit of work`,
+      );
+    }
+
+    if (options.state !== "modified") {
+      return this.proxyManager.wrapQueryResults({ ...data }, tableInstance);
+    }
+
+    // Track the key alone, then assign the values so they are saved as changes
+    const pkKeys = Object.keys(
+      this.adapter.getPrimaryKeyColumns(tableInstance),
+    );
+    const entity = this.proxyManager.wrapQueryResults(
+      this.pickPrimaryKey(table, data),
+      tableInstance,
+    );
+    for (const [key, value] of Object.entries(data)) {
+      if (!pkKeys.includes(key)) {
+        entity[key] = value;
+      }
+    }
+
+    return entity;
+  }
+
+  /**
+   * Attach an entity by its primary key, given as an object of its columns or,
+   * for tables with a single-column key, as the bare value
+   */
+  private reference(table: string, param: any) {
+    if (
+      typeof param === "object" &&
+      param !== null &&
+      !(param instanceof Date)
+    ) {
+      return this.attach(table, param);
+    }
+
+    const pkKeys = Object.keys(
+      this.adapter.getPrimaryKeyColumns(this.schema[table]!),
+    );
+    if (pkKeys.length !== 1) {
+      throw new Error(
+        `Cannot reference an entity of '${table}' by a bare key because its primary key has ${pkKeys.length} columns`,
+      );
+    }
+
+    return this.attach(table, { [pkKeys[0]!]: param });
+  }
+
+  /**
+   * Get the entity with the primary key of `data` from the identity map,
+   * unless it was deleted
+   */
+  private findTracked(table: string, data: any) {
+    const tableInstance = this.schema[table];
+    if (!tableInstance) {
+      throw new Error(`Table '${table}' not found in schema`);
+    }
+
+    const pkKeys = Object.keys(this.adapter.getPrimaryKeyColumns(tableInstance));
+    const missing = pkKeys.filter(
+      (key) => data[key] === undefined || data[key] === null,
+    );
+    if (missing.length > 0) {
+      throw new Error(
+        `Missing primary key column(s) ${missing.join(", ")} for table '${table}'`,
+      );
+    }
+
+    const primaryKey = this.adapter.extractPrimaryKeyValue(tableInstance, data);
+    const existing = this.identityMap.get(table, primaryKey);
+    if (
+      existing === undefined ||
+      this.changeTracker.getState(existing) === EntityState.Deleted
+    ) {
+      return undefined;
+    }
+
+    return existing;
+  }
+
+  private pickPrimaryKey(table: string, data: any) {
+    const pkKeys = Object.keys(
+      this.adapter.getPrimaryKeyColumns(this.schema[table]),
+    );
+    return Object.fromEntries(pkKeys.map((key) => [key, data[key]]));
+  }
+
   private deleteEntity(table: string, entity: any) {
     // Get the table instance from schema
     const tableInstance = this.schema[table];
@@ -188,24 +704,146 @@ export class UnitOfWork<
   }
 
   /**
-   * Save all changes to the database
+   * Queue an UPDATE of every row matching `where`, run on `save()`. Loaded
+   * and created entities matching it get the new values too. Not allowed on
+   * versioned tables, where it would neither check nor increment versions.
    */
-  async save(checkpoint?: number): Promise<void> {
-    let changeSets;
+  private updateWhere(
+    table: string,
+    where: any,
+    changes: Record<string, any>,
+  ) {
+    const tableInstance = this.schema[table];
+    if (!tableInstance) {
+      throw new Error(`Table '${table}' not found in schema`);
+    }
+    if (this.versionColumns.has(table)) {
+      throw new Error(
+        `Cannot update rows of '${table}' with updateWhere() because the table has a version column`,
+      );
+    }
+
+    const columns = getTableColumns(tableInstance);
+    const pkKeys = Object.keys(
+      this.adapter.getPrimaryKeyColumns(tableInstance),
+    );
+    for (const key of Object.keys(changes)) {
+      if (!(key in columns)) {
+        throw new Error(`'${key}' is not a column of table '${table}'`);
+      }
+      if (pkKeys.includes(key)) {
+        throw new Error(
+          `Cannot change primary key column '${key}' of table '${table}' with updateWhere()`,
+        );
+      }
+    }
+
+    for (const entity of this.findTrackedMatching(table, where)) {
+      Object.assign(entity, changes);
+    }
+
+    this.bulkOperations.push({
+      type: "update",
+      tableName: table,
+      where,
+      changes,
+    });
+  }
+
+  /**
+   * Queue a DELETE of every row matching `where`, run on `save()`. Loaded and
+   * created entities matching it are deleted too. Not allowed on versioned
+   * tables, where it would not check versions.
+   */
+  private deleteWhere(table: string, where: any) {
+    if (!this.schema[table]) {
+      throw new Error(`Table '${table}' not found in schema`);
+    }
+    if (this.versionColumns.has(table)) {
+      throw new Error(
+        `Cannot delete rows of '${table}' with deleteWhere() because the table has a version column`,
+      );
+    }
+
+    for (const entity of this.findTrackedMatching(table, where)) {
+      this.deleteEntity(table, entity);
+    }
+
+    this.bulkOperations.push({ type: "delete", tableName: table, where });
+  }
+
+  /**
+   * Get the tracked entities of a table that match a bulk operation's filter.
+   * Filters that cannot be evaluated in memory are only accepted while no
+   * entity of the table is tracked, since they could not be kept in sync.
+   */
+  private findTrackedMatching(table: string, where: any): any[] {
+    if (where === undefined) {
+      throw new Error(
+        `A filter is required to update or delete rows of '${table}'`,
+      );
+    }
+
+    const matchesWhere = this.queryEvaluator.compileWhere(
+      where,
+      this.schema[table],
+    );
+    const candidates = this.changeTracker
+      .getAllTracked()
+      .filter(
+        (tracked) =>
+          tracked.tableName === table && tracked.state !== EntityState.Deleted,
+      );
+    if (!matchesWhere) {
+      if (candidates.length > 0) {
+        throw new Error(
+          `Cannot evaluate the filter for '${table}' in memory while entities of it are tracked. ` +
+            `Build 'where' with the operators passed to its callback.`,
+        );
+      }
+      return [];
+    }
+
+    return candidates
+      .filter((tracked) => matchesWhere(tracked.entity))
+      .map((tracked) => tracked.entity);
+  }
+
+  /**
+   * Save all changes to the database, or the changes made up to a checkpoint.
+   * Fails with a `SaveError`, or a `CheckpointNotFoundError` or
+   * `CheckpointOrderError` for a checkpoint that cannot be saved.
+   */
+  async save(options?: SaveOptions): Promise<void>;
+  async save(checkpoint: number, options?: SaveOptions): Promise<void>;
+  async save(
+    checkpointOrOptions?: number | SaveOptions,
+    options: SaveOptions = {},
+  ): Promise<void> {
+    await this.settleSessionRollback();
+
+    let checkpoint: number | undefined;
+    if (typeof checkpointOrOptions === "number") {
+      checkpoint = checkpointOrOptions;
+    } else if (checkpointOrOptions) {
+      options = checkpointOrOptions;
+    }
+
+    let changeSets: ChangeSet[];
     let checkpointState: Map<any, TrackedEntity> | null = null;
     let entityToChangeSet: Map<any, any> | null = null;
     if (checkpoint !== undefined) {
       const validationError =
         this.checkpointManager.getPersistedCheckpointError(checkpoint);
       if (validationError) {
-        throw new Error(validationError);
+        throw validationError;
       }
 
       // Get the checkpoint state
       checkpointState =
         this.checkpointManager.getEntityStatesAtCheckpoint(checkpoint);
       if (!checkpointState) {
-        throw new Error(`Checkpoint ${checkpoint} not found`);
+        throw new CheckpointNotFoundError(checkpoint);
       }
 
       // Compute changesets based on what was modified up to the checkpoint
@@ -254,12 +892,22 @@ export class UnitOfWork<
             state: checkpointTracked.state,
             changes: new Map(),
             tableName: checkpointTracked.tableName,
+            onConflict: checkpointTracked.onConflict,
             originalEntity: entity, // Keep reference to original entity
           };
           changeSets.push(changeSet);
           entityToChangeSet.set(entity, changeSet);
-        } else if (checkpointTracked.state === EntityState.Deleted) {
+        } else if (
+          checkpointTracked.state === EntityState.Deleted &&
+          this.adapter.isPrimaryKeyComplete(
+            this.adapter.extractPrimaryKeyValue(
+              this.schema[checkpointTracked.tableName],
+              entity,
+            ),
+          )
+        ) {
           // Handle entities that were deleted before the checkpoint
+          // (transient entities without a key never reached the database)
           const changeSet = {
             entity: checkpointTracked.entity, // Use checkpoint entity state
             state: checkpointTracked.state,
@@ -275,15 +923,31 @@ export class UnitOfWork<
       // Save all changes
       changeSets = this.changeTracker.computeChangeSets();
     }
-    if (changeSets.length === 0) {
-      return; // Nothing to save
+    const versionUpdates = this.assignVersions(changeSets, checkpointState);
+    const bulkOperations =
+      checkpoint === undefined
+        ? this.bulkOperations
+        : this.bulkOperations.slice(
+            0,
+            this.bulkOperationCounts.get(checkpoint) ?? 0,
+          );
+    if (changeSets.length === 0 && bulkOperations.length === 0) {
+      // Nothing to save, but locks are released
+      await this.adapter.commitSession();
+      return;
     }
     try {
-      // Execute all changes in a transaction
-      await this.adapter.executeChangeSets(changeSets);
+      await this.flush(changeSets, bulkOperations, options.retry);
       // Mark checkpoint as persisted if saving to a specific checkpoint
       if (checkpoint !== undefined && entityToChangeSet instanceof Map) {
         this.checkpointManager.markCheckpointAsPersisted(checkpoint);
+        this.bulkOperations = this.bulkOperations.slice(bulkOperations.length);
+        for (const [id, count] of this.bulkOperationCounts) {
+          this.bulkOperationCounts.set(
+            id,
+            Math.max(0, count - bulkOperations.length),
+          );
+        }
         // For checkpoint saves, we need to update the original values of saved entities
         // to reflect their state at the checkpoint
         for (const [entity, changeSet] of entityToChangeSet) {
@@ -295,11 +959,16 @@ export class UnitOfWork<
               tracked.state = EntityState.Unchanged;
               // Set original values to the saved state
               tracked.originalValues.clear();
-              for (const [property, value] of Object.entries(
-                checkpointTracked.entity,
-              )) {
+              for (const [property, value] of Object.entries({
+                ...checkpointTracked.entity,
+                ...changeSet.generatedValues,
+              })) {
                 tracked.originalValues.set(property, value);
               }
+
+              if (changeSet.generatedValues) {
+                this.registerGeneratedKey(entity, tracked, changeSet);
+              }
             } else if (checkpointTracked.state === EntityState.Modified) {
               // Update original values to the checkpoint state (what was saved)
               for (const [property, value] of Object.entries(
@@ -340,32 +1009,337 @@ export class UnitOfWork<
           }
         }
       } else {
+        for (const changeSet of changeSets) {
+          if (changeSet.generatedValues) {
+            this.proxyManager.assignUntracked(
+              changeSet.entity,
+              changeSet.generatedValues,
+            );
+          }
+        }
+
         this.changeTracker.clear();
         this.identityMap.clear();
         this.proxyManager.clearCache();
         this.checkpointManager.clearCheckpoints();
+        this.bulkOperations = [];
+        this.bulkOperationCounts.clear();
+      }
+
+      this.writeBackVersions(versionUpdates);
+    } catch (error) {
+      throw this.adapter.toSaveError(error);
+    }
+  }
+
+  /**
+   * Execute changes in a transaction and commit the session transaction
+   * reads ran in. Errors the adapter classifies as retryable are retried in a
+   * new transaction; the tracked entities are only updated once it succeeds.
+   */
+  private async flush(
+    changeSets: ChangeSet[],
+    bulkOperations: BulkOperation[],
+    retry?: RetryOptions,
+  ): Promise<void> {
+    const attempts = retry?.attempts ?? 1;
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        await this.adapter.executeChangeSets(changeSets, bulkOperations);
+        await this.adapter.commitSession();
+        return;
+      } catch (error) {
+        // The changes flushed at savepoints are kept. The transaction stays
+        // open on the same data, so retrying could not succeed.
+        if (await this.rollbackToLastSavepoint()) {
+          throw error;
+        }
+        await this.adapter.rollbackSession();
+        if (attempt >= attempts || !this.adapter.isRetryableError(error)) {
+          throw error;
+        }
+      }
+
+      // Drop what the failed attempt recorded on the changesets
+      for (const changeSet of changeSets) {
+        delete changeSet.generatedValues;
+        delete changeSet.versionConflict;
+      }
+
+      const backoff = retry?.backoff ?? 0;
+      const delay =
+        typeof backoff === "function"
+          ? backoff(attempt)
+          : backoff * 2 ** (attempt - 1);
+      if (delay > 0) {
+        await new Promise((resolve) => setTimeout(resolve, delay));
       }
+    }
+  }
+
+  /**
+   * Write every pending change to the session transaction without committing
+   * it, and take the written values as the entities' original values
+   */
+  private async flushToSession(): Promise<void> {
+    const changeSets = this.changeTracker.computeChangeSets();
+    const versionUpdates = this.assignVersions(changeSets, null);
+
+    try {
+      await this.adapter.executeChangeSets(changeSets, this.bulkOperations);
     } catch (error) {
+      if (!(await this.rollbackToLastSavepoint())) {
+        await this.adapter.rollbackSession();
+      }
+      throw this.adapter.toSaveError(error);
+    }
+
+    for (const changeSet of changeSets) {
+      const tracked = this.changeTracker.getTrackedEntity(changeSet.entity)!;
+      if (changeSet.state === EntityState.Deleted) {
+        this.identityMap.remove(changeSet.tableName, tracked.primaryKey);
+      } else if (changeSet.generatedValues) {
+        this.registerGeneratedKey(changeSet.entity, tracked, changeSet);
+      }
+    }
+    this.writeBackVersions(versionUpdates);
+    this.changeTracker.acceptChanges();
+    this.bulkOperations = [];
+    this.bulkOperationCounts.clear();
+  }
+
+  /**
+   * Undo what was written since the last savepoint still set, if any.
+   * Returns whether there was one.
+   */
+  private async rollbackToLastSavepoint(): Promise<boolean> {
+    const checkpoint = this.checkpointManager.getLastSavepointCheckpointId();
+    const savepoint =
+      checkpoint === null
+        ? undefined
+        : this.checkpointManager.getSavepoint(checkpoint);
+    if (!savepoint || !this.adapter.hasSavepoint(savepoint)) {
+      return false;
+    }
+
+    await this.adapter.rollbackToSavepoint(savepoint);
+    return true;
+  }
+
+  /**
+   * Make updates and deletes of tables with a version column only apply to
+   * rows still at the version the entity was loaded with, and updates
+   * increment it. Returns the new versions to write back once saved.
+   */
+  private assignVersions(
+    changeSets: ChangeSet[],
+    checkpointState: Map<any, TrackedEntity> | null,
+  ): { entity: any; key: string; value: any }[] {
+    const versionUpdates = [];
+
+    for (const changeSet of changeSets) {
+      const key = this.versionColumns.get(changeSet.tableName);
+      if (!key || changeSet.state === EntityState.Added) continue;
+
+      const entity = changeSet.originalEntity ?? changeSet.entity;
+      const tracked =
+        checkpointState?.get(entity) ??
+        this.changeTracker.getTrackedEntity(entity);
+      const version = tracked?.originalValues.has(key)
+        ? tracked.originalValues.get(key)
+        : changeSet.entity[key];
+      if (version === undefined || version === null) {
+        const primaryKey = this.adapter.extractPrimaryKeyValue(
+          this.schema[changeSet.tableName],
+          changeSet.entity,
+        );
+        throw new Error(
+          `Cannot save the '${changeSet.tableName}' entity ${JSON.stringify(primaryKey)} without its version column '${key}'`,
+        );
+      }
+
+      changeSet.version = { key, value: version };
+      if (changeSet.state === EntityState.Modified) {
+        const next = this.getNextVersion(changeSet.tableName, key, version);
+        changeSet.changes.set(key, { old: version, new: next });
+        versionUpdates.push({ entity, key, value: next });
+      }
+    }
+
+    return versionUpdates;
+  }
+
+  /**
+   * Write incremented versions back to saved entities, and to the values
+   * entities still tracked after a checkpoint save compare against
+   */
+  private writeBackVersions(
+    versionUpdates: { entity: any; key: string; value: any }[],
+  ) {
+    for (const { entity, key, value } of versionUpdates) {
+      this.proxyManager.assignUntracked(entity, { [key]: value });
+
+      const tracked = this.changeTracker.getTrackedEntity(entity);
+      if (tracked) {
+        tracked.originalValues.set(key, value);
+        this.changeTracker.markOriginalValuesAsPersisted(
+          entity,
+          tracked.originalValues,
+        );
+      }
+    }
+  }
+
+  private assertVersionColumn(table: string, columnKey: string) {
+    const tableInstance = this.schema[table];
+    if (!tableInstance) {
+      throw new Error(`Table '${table}' not found in schema`);
+    }
+
+    const column = getTableColumns(tableInstance)[columnKey];
+    if (!column) {
+      throw new Error(`'${columnKey}' is not a column of table '${table}'`);
+    }
+    if (!["number", "bigint", "date"].includes(column.dataType)) {
       throw new Error(
-        `Failed to save changes: ${
-          error instanceof Error ? error.message : String(error)
-        }`,
+        `Version column '${columnKey}' of table '${table}' must hold numbers, bigints or dates`,
       );
     }
   }
 
+  private getInitialVersion(table: string, columnKey: string): any {
+    const { dataType } = getTableColumns(this.schema[table])[columnKey]!;
+    if (dataType === "date") return new Date();
+    return dataType === "bigint" ? 1n : 1;
+  }
+
+  private getNextVersion(table: string, columnKey: string, version: any): any {
+    const { dataType } = getTableColumns(this.schema[table])[columnKey]!;
+    if (dataType === "date") {
+      // Always move forward, even if the clock did not
+      return new Date(Math.max(Date.now(), version.getTime() + 1));
+    }
+    return dataType === "bigint" ? version + 1n : version + 1;
+  }
+
+  /**
+   * Write database-generated values back to a transient entity saved at a
+   * checkpoint and register it in the identity map under its new key
+   */
+  private registerGeneratedKey(
+    entity: any,
+    tracked: TrackedEntity,
+    changeSet: ChangeSet,
+  ) {
+    this.proxyManager.assignUntracked(entity, changeSet.generatedValues!);
+
+    const tableInstance = this.schema[tracked.tableName];
+    tracked.primaryKey = this.adapter.extractPrimaryKeyValue(
+      tableInstance,
+      entity,
+    );
+
+    if (this.changeTracker.getState(entity) !== EntityState.Deleted) {
+      this.identityMap.register(tracked.tableName, tracked.primaryKey, entity);
+    }
+  }
+
+  /**
+   * Create a checkpoint. With `savepoint`, the pending changes are first
+   * written to the session transaction, which is opened if needed, and a
+   * savepoint is set that `rollback()` returns the database to.
+   */
+  setCheckpoint(): number;
+  setCheckpoint(options: { savepoint: true }): Promise<SavepointCheckpoint>;
+  setCheckpoint(options?: {
+    savepoint: true;
+  }): number | Promise<SavepointCheckpoint> {
+    if (options?.savepoint) {
+      return this.setSavepointCheckpoint();
+    }
+
+    const checkpoint = this.checkpointManager.setCheckpoint();
+    this.bulkOperationCounts.set(checkpoint, this.bulkOperations.length);
+    return checkpoint;
+  }
+
+  private async setSavepointCheckpoint(): Promise<SavepointCheckpoint> {
+    await this.ensureSession();
+    await this.flushToSession();
+    const savepoint = await this.adapter.createSavepoint();
+
+    const checkpoint = this.checkpointManager.setCheckpoint(savepoint);
+    this.bulkOperationCounts.set(checkpoint, 0);
+    return checkpoint as SavepointCheckpoint;
+  }
+
   /**
-   * Create a checkpoint
+   * Rollback to a checkpoint. Rolling back to a savepoint checkpoint also
+   * rolls the session transaction back to its savepoint, so the result is a
+   * promise; checkpoints not typed as `SavepointCheckpoint` can be rolled
+   * back to with `rollbackToSavepoint()`, which always returns one.
    */
-  setCheckpoint(): number {
-    return this.checkpointManager.setCheckpoint();
+  rollback(checkpoint: SavepointCheckpoint): Promise<RollbackResult>;
+  rollback(checkpoint: number): RollbackResult;
+  rollback(checkpoint: number): RollbackResult | Promise<RollbackResult> {
+    if (this.checkpointManager.getSavepoint(checkpoint)) {
+      return this.rollbackToSavepoint(checkpoint);
+    }
+
+    return this.restoreCheckpoint(checkpoint);
   }
 
   /**
-   * Rollback to a checkpoint
+   * Rollback to any checkpoint, rolling the session transaction back to its
+   * savepoint as well if it has one
    */
-  rollback(checkpoint: number): RollbackResult {
-    return this.checkpointManager.rollback(checkpoint);
+  async rollbackToSavepoint(checkpoint: number): Promise<RollbackResult> {
+    const savepoint = this.checkpointManager.getSavepoint(checkpoint);
+    if (!savepoint) {
+      return this.restoreCheckpoint(checkpoint);
+    }
+
+    const validationError =
+      this.checkpointManager.getRevertCheckpointError(checkpoint);
+    if (validationError) {
+      return { error: validationError.message, cause: validationError };
+    }
+
+    if (!this.adapter.hasSavepoint(savepoint)) {
+      const cause = new CheckpointOrderError(
+        `Cannot revert to checkpoint ${checkpoint} because the transaction of its savepoint has ended`,
+        checkpoint,
+      );
+      return { error: cause.message, cause };
+    }
+
+    try {
+      await this.adapter.rollbackToSavepoint(savepoint);
+    } catch (error) {
+      const cause = new DrizzowError(
+        `Failed to rollback to checkpoint ${checkpoint}: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        { cause: error },
+      );
+      return { error: cause.message, cause };
+    }
+
+    return this.restoreCheckpoint(checkpoint);
+  }
+
+  private restoreCheckpoint(checkpoint: number): RollbackResult {
+    const result = this.checkpointManager.rollback(checkpoint);
+    if (!result.error) {
+      // Drop bulk operations queued after the checkpoint
+      this.bulkOperations = this.bulkOperations.slice(
+        0,
+        this.bulkOperationCounts.get(checkpoint) ?? 0,
+      );
+    }
+
+    return result;
   }
 
   /**
@@ -408,12 +1382,57 @@ export class UnitOfWork<
 
 
   /**
-   * Clear all tracking and caches
+   * Open a session transaction that every read and the next `save()` run
+   * in. `save()` commits it, `clear()` and `dispose()` roll it back.
+   */
+  async begin(options: SessionOptions = {}): Promise<void> {
+    await this.settleSessionRollback();
+    await this.adapter.beginSession({
+      isolationLevel: this.isolationLevel,
+      ...options,
+    });
+  }
+
+  /**
+   * Clear all tracking and caches, and start rolling back the session
+   * transaction. The next `save()`, `begin()` or `dispose()`, or read in a
+   * session transaction, waits for the rollback and throws if it failed.
    */
   clear(): void {
     this.changeTracker.clear();
     this.identityMap.clear();
     this.proxyManager.clearCache();
     this.checkpointManager.clearCheckpoints();
+    this.bulkOperations = [];
+    this.bulkOperationCounts.clear();
+
+    if (this.adapter.hasSession()) {
+      const rollback = this.adapter.rollbackSession();
+      // Handled here so a failure is only reported by the next awaiting call
+      rollback.catch(() => {});
+      this.sessionRollback = rollback;
+    }
+  }
+
+  /**
+   * Roll back the session transaction if it was not saved, and discard
+   * unsaved changes. Called by `await using`.
+   */
+  async dispose(): Promise<void> {
+    this.clear();
+    await this.settleSessionRollback();
+  }
+
+  /**
+   * Wait for the rollback started by `clear()`, if any
+   */
+  private async settleSessionRollback(): Promise<void> {
+    const rollback = this.sessionRollback;
+    this.sessionRollback = null;
+    await rollback;
+  }
+
+  async [Symbol.asyncDispose](): Promise<void> {
+    await this.dispose();
   }
 }
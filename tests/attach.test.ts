@@ -0,0 +1,198 @@
+import { describe, it, expect, beforeEach } from "bun:test";
+import { BunSQLiteDatabase, drizzle } from "drizzle-orm/bun-sqlite";
+import { Database } from "bun:sqlite";
+import { drizzow, type CreateUowReturnType } from "../src/bun-sqlite";
+import { asc } from "drizzle-orm";
+import {
+  integer,
+  primaryKey,
+  sqliteTable,
+  text,
+} from "drizzle-orm/sqlite-core";
+
+// Define test schema
+const users = sqliteTable("users", {
+  id: integer().primaryKey(),
+  username: text().notNull(),
+  email: text(),
+  age: integer(),
+});
+
+const memberships = sqliteTable(
+  "memberships",
+  {
+    orgId: integer("org_id").notNull(),
+    userId: integer("user_id").notNull(),
+    role: text().notNull(),
+  },
+  (t) => [primaryKey({ columns: [t.orgId, t.userId] })],
+);
+
+const schema = { users, memberships };
+
+describe("Attaching entities without loading them", () => {
+  let db: BunSQLiteDatabase<typeof schema>;
+  let uow: CreateUowReturnType<BunSQLiteDatabase<typeof schema>>;
+  let queries: string[];
+
+  beforeEach(async () => {
+    const sqlite = new Database(":memory:");
+    queries = [];
+    db = drizzle(sqlite, {
+      schema,
+      logger: { logQuery: (query) => queries.push(query) },
+    });
+
+    db.run(`
+      CREATE TABLE users (
+        id INTEGER PRIMARY KEY,
+        username TEXT NOT NULL,
+        email TEXT,
+        age INTEGER
+      );
+      CREATE TABLE memberships (
+        org_id INTEGER NOT NULL,
+        user_id INTEGER NOT NULL,
+        role TEXT NOT NULL,
+        PRIMARY KEY (org_id, user_id)
+      )
+    `);
+
+    await db.insert(users).values([
+      { id: 1, username: "alice", email: "alice@example.com", age: 25 },
+      { id: 2, username: "bob", email: "bob@example.com", age: 30 },
+    ]);
+
+    uow = drizzow(db);
+    queries = [];
+  });
+
+  function statements() {
+    return queries.filter((q) => q !== "begin" && q !== "commit");
+  }
+
+  describe("reference()", () => {
+    it("should update only the assigned columns without reading", async () => {
+      const alice = uow.users.reference({ id: 1 });
+      alice.age = 26;
+
+      await uow.save();
+
+      expect(statements()).toEqual([
+        'update "users" set "age" = ? where "users"."id" = ?',
+      ]);
+      expect(await db.select().from(users).orderBy(asc(users.id))).toEqual([
+        { id: 1, username: "alice", email: "alice@example.com", age: 26 },
+        { id: 2, username: "bob", email: "bob@example.com", age: 30 },
+      ]);
+    });
+
+    it("should write nothing if no column is assigned", async () => {
+      uow.users.reference({ id: 1 });
+
+      await uow.save();
+
+      expect(queries).toHaveLength(0);
+    });
+
+    it("should register the entity in the identity map", async () => {
+      const alice = uow.users.reference({ id: 1 });
+
+      expect(await uow.users.find({ id: 1 })).toBe(alice);
+      expect(uow.users.reference({ id: 1 })).toBe(alice);
+      expect(queries).toHaveLength(0);
+    });
+
+    it("should return the entity already in the identity map", async () => {
+      const alice = (await uow.users.find({ id: 1 }))!;
+
+      expect(uow.users.reference({ id: 1 })).toBe(alice);
+      expect(alice.username).toBe("alice");
+    });
+
+    it("should delete the referenced row", async () => {
+      uow.users.delete(uow.users.reference({ id: 2 }));
+
+      await uow.save();
+
+      expect(statements()).toHaveLength(1);
+      expect(await db.select().from(users)).toHaveLength(1);
+    });
+
+    it("should accept the bare value of a single-column key", async () => {
+      const alice = uow.users.reference(1);
+      alice.age = 26;
+
+      expect(uow.users.reference({ id: 1 })).toBe(alice);
+      await uow.save();
+      expect(statements()).toEqual([
+        'update "users" set "age" = ? where "users"."id" = ?',
+      ]);
+    });
+
+    it("should reject the bare value of a composite key", () => {
+      expect(() => uow.memberships.reference(1 as any)).toThrow(
+        "Cannot reference an entity of 'memberships' by a bare key because its primary key has 2 columns",
+      );
+      expect(uow.memberships.reference({ orgId: 1, userId: 1 })).toBeDefined();
+    });
+
+    it("should reject a missing primary key", () => {
+      expect(() => uow.users.reference({} as any)).toThrow(
+        "Missing primary key column(s) id for table 'users'",
+      );
+    });
+
+    it("should reject the key of an entity deleted in the unit of work", async () => {
+      uow.users.delete((await uow.users.find({ id: 1 }))!);
+
+      expect(() => uow.users.reference({ id: 1 })).toThrow(
+        "Entity with primary key 1 was deleted in this unit of work",
+      );
+    });
+  });
+
+  describe("attach()", () => {
+    it("should take the given values as the stored ones", async () => {
+      const alice = uow.users.attach({ id: 1, username: "alice", age: 25 });
+      alice.age = 25;
+      alice.username = "alice cooper";
+
+      await uow.save();
+
+      expect(statements()).toEqual([
+        'update "users" set "username" = ? where "users"."id" = ?',
+      ]);
+      expect(alice.email).toBeUndefined();
+    });
+
+    it("should save every given value in the 'modified' state", async () => {
+      uow.users.attach(
+        { id: 2, username: "robert", email: null },
+        { state: "modified" },
+      );
+
+      await uow.save();
+
+      expect((await db.select().from(users))[1]).toEqual({
+        id: 2,
+        username: "robert",
+        email: null,
+        age: 30,
+      });
+    });
+
+    it("should save attached entities up to a checkpoint", async () => {
+      const alice = uow.users.attach({ id: 1 });
+      alice.age = 40;
+      const checkpoint = uow.setCheckpoint();
+      alice.age = 50;
+
+      await uow.save(checkpoint);
+      expect((await db.select().from(users))[0]!.age).toBe(40);
+
+      await uow.save();
+      expect((await db.select().from(users))[0]!.age).toBe(50);
+    });
+  });
+});
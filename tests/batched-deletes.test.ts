@@ -0,0 +1,112 @@
+import { describe, it, expect, beforeEach } from "bun:test";
+import { BunSQLiteDatabase, drizzle } from "drizzle-orm/bun-sqlite";
+import { Database } from "bun:sqlite";
+import { drizzow, type CreateUowReturnType } from "../src/bun-sqlite";
+import { asc } from "drizzle-orm";
+import {
+  integer,
+  primaryKey,
+  sqliteTable,
+  text,
+} from "drizzle-orm/sqlite-core";
+
+// Define test schema
+const events = sqliteTable("events", {
+  id: integer().primaryKey(),
+  name: text().notNull(),
+});
+
+const allowances = sqliteTable(
+  "allowances",
+  {
+    owner: integer().notNull(),
+    spender: integer().notNull(),
+    amount: integer().notNull(),
+  },
+  (t) => [primaryKey({ columns: [t.owner, t.spender] })],
+);
+
+const schema = { events, allowances };
+
+describe("Batched deletes", () => {
+  let db: BunSQLiteDatabase<typeof schema>;
+  let uow: CreateUowReturnType<BunSQLiteDatabase<typeof schema>>;
+  let queries: string[];
+
+  beforeEach(async () => {
+    const sqlite = new Database(":memory:");
+    queries = [];
+    db = drizzle(sqlite, {
+      schema,
+      logger: { logQuery: (query) => queries.push(query) },
+    });
+
+    db.run(`
+      CREATE TABLE events (
+        id INTEGER PRIMARY KEY,
+        name TEXT NOT NULL
+      )
+    `);
+    db.run(`
+      CREATE TABLE allowances (
+        owner INTEGER NOT NULL,
+        spender INTEGER NOT NULL,
+        amount INTEGER NOT NULL,
+        PRIMARY KEY (owner, spender)
+      )
+    `);
+
+    await db.insert(events).values(
+      Array.from({ length: 1200 }, (_, i) => ({
+        id: i + 1,
+        name: `event ${i + 1}`,
+      })),
+    );
+    await db.insert(allowances).values([
+      { owner: 1, spender: 1, amount: 10 },
+      { owner: 1, spender: 2, amount: 20 },
+      { owner: 2, spender: 1, amount: 30 },
+    ]);
+
+    uow = drizzow(db);
+    queries = [];
+  });
+
+  function deleteCount(table: string) {
+    return queries.filter((q) => q.startsWith(`delete from "${table}"`))
+      .length;
+  }
+
+  it("should delete many rows with IN lists chunked by parameter limit", async () => {
+    const all = await uow.events.findMany();
+    for (const event of all.filter((e) => e.id !== 600)) {
+      uow.events.delete(event);
+    }
+
+    await uow.save();
+
+    // 1199 keys / 999 parameters per statement
+    expect(deleteCount("events")).toBe(2);
+    const rows = await db.select().from(events);
+    expect(rows.map((r) => r.id)).toEqual([600]);
+  });
+
+  it("should delete rows of tables with a composite key in one statement", async () => {
+    const found = await uow.allowances.find([
+      { owner: 1, spender: 2 },
+      { owner: 2, spender: 1 },
+    ]);
+    for (const allowance of found) {
+      uow.allowances.delete(allowance);
+    }
+
+    await uow.save();
+
+    expect(deleteCount("allowances")).toBe(1);
+    const rows = await db
+      .select()
+      .from(allowances)
+      .orderBy(asc(allowances.owner), asc(allowances.spender));
+    expect(rows.map((r) => [r.owner, r.spender])).toEqual([[1, 1]]);
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, it, expect, beforeEach } from "bun:test";
+import { BunSQLiteDatabase, drizzle } from "drizzle-orm/bun-sqlite";
+import { Database } from "bun:sqlite";
+import { drizzow, type CreateUowReturnType } from "../src/bun-sqlite";
+import { asc } from "drizzle-orm";
+import { integer, sqliteTable, text } from "drizzle-orm/sqlite-core";
+
+// Define test schema
+const transfers = sqliteTable("transfers", {
+  id: integer().primaryKey({ autoIncrement: true }),
+  sender: text().notNull(),
+  recipient: text().notNull(),
+  amount: integer().notNull(),
+});
+
+const tokens = sqliteTable("tokens", {
+  id: integer().primaryKey(),
+  symbol: text().notNull(),
+});
+
+const schema = { transfers, tokens };
+
+describe("Batched inserts", () => {
+  let db: BunSQLiteDatabase<typeof schema>;
+  let uow: CreateUowReturnType<BunSQLiteDatabase<typeof schema>>;
+  let queries: string[];
+
+  beforeEach(() => {
+    const sqlite = new Database(":memory:");
+    queries = [];
+    db = drizzle(sqlite, {
+      schema,
+      logger: { logQuery: (query) => queries.push(query) },
+    });
+
+    db.run(`
+      CREATE TABLE transfers (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        sender TEXT NOT NULL,
+        recipient TEXT NOT NULL,
+        amount INTEGER NOT NULL
+      )
+    `);
+    db.run(`
+      CREATE TABLE tokens (
+        id INTEGER PRIMARY KEY,
+        symbol TEXT NOT NULL
+      )
+    `);
+
+    uow = drizzow(db);
+    queries = [];
+  });
+
+  function insertCount(table: string) {
+    return queries.filter((q) => q.startsWith(`insert into "${table}"`))
+      .length;
+  }
+
+  it("should insert many rows of a table in a few statements", async () => {
+    for (let i = 1; i <= 1000; i++) {
+      uow.transfers.create({
+        id: i,
+        sender: "0xa",
+        recipient: "0xb",
+        amount: i,
+      });
+    }
+
+    await uow.save();
+
+    // 999 parameters / 4 columns = 249 rows per statement
+    expect(insertCount("transfers")).toBe(5);
+    const rows = await db.select().from(transfers);
+    expect(rows.length).toBe(1000);
+  });
+
+  it("should group inserts per table", async () => {
+    uow.tokens.create({ id: 1, symbol: "USDC" });
+    uow.transfers.create({ id: 1, sender: "0xa", recipient: "0xb", amount: 1 });
+    uow.tokens.create({ id: 2, symbol: "DAI" });
+    uow.transfers.create({ id: 2, sender: "0xb", recipient: "0xa", amount: 2 });
+
+    await uow.save();
+
+    expect(insertCount("tokens")).toBe(1);
+    expect(insertCount("transfers")).toBe(1);
+  });
+
+  it("should map generated keys back to their entities", async () => {
+    const created = Array.from({ length: 300 }, (_, i) =>
+      uow.transfers.create({ sender: "0xa", recipient: "0xb", amount: i }),
+    );
+
+    await uow.save();
+
+    // SQLite does not specify the order of RETURNING rows
+    expect(insertCount("transfers")).toBe(300);
+    const rows = await db.select().from(transfers).orderBy(asc(transfers.id));
+    created.forEach((transfer, i) => {
+      expect(transfer.id).toBe(rows[i]!.id);
+      expect(transfer.amount).toBe(rows[i]!.amount);
+    });
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, it, expect, beforeEach } from "bun:test";
+import { BunSQLiteDatabase, drizzle } from "drizzle-orm/bun-sqlite";
+import { Database } from "bun:sqlite";
+import { drizzow, type CreateUowReturnType } from "../src/bun-sqlite";
+import { asc } from "drizzle-orm";
+import {
+  integer,
+  primaryKey,
+  sqliteTable,
+  text,
+} from "drizzle-orm/sqlite-core";
+
+// Define test schema
+const balances = sqliteTable("balances", {
+  id: integer().primaryKey(),
+  holder: text().notNull(),
+  amount: integer("amount_wei").notNull(),
+  updatedBlock: integer("updated_block"),
+});
+
+const allowances = sqliteTable(
+  "allowances",
+  {
+    owner: integer().notNull(),
+    spender: integer().notNull(),
+    amount: integer().notNull(),
+  },
+  (t) => [primaryKey({ columns: [t.owner, t.spender] })],
+);
+
+const schema = { balances, allowances };
+
+describe("Batched updates", () => {
+  let db: BunSQLiteDatabase<typeof schema>;
+  let uow: CreateUowReturnType<BunSQLiteDatabase<typeof schema>>;
+  let queries: string[];
+
+  beforeEach(async () => {
+    const sqlite = new Database(":memory:");
+    queries = [];
+    db = drizzle(sqlite, {
+      schema,
+      logger: { logQuery: (query) => queries.push(query) },
+    });
+
+    db.run(`
+      CREATE TABLE balances (
+        id INTEGER PRIMARY KEY,
+        holder TEXT NOT NULL,
+        amount_wei INTEGER NOT NULL,
+        updated_block INTEGER
+      )
+    `);
+    db.run(`
+      CREATE TABLE allowances (
+        owner INTEGER NOT NULL,
+        spender INTEGER NOT NULL,
+        amount INTEGER NOT NULL,
+        PRIMARY KEY (owner, spender)
+      )
+    `);
+
+    await db.insert(balances).values(
+      Array.from({ length: 500 }, (_, i) => ({
+        id: i + 1,
+        holder: `0x${i + 1}`,
+        amount: 0,
+      })),
+    );
+    await db.insert(allowances).values([
+      { owner: 1, spender: 2, amount: 10 },
+      { owner: 2, spender: 1, amount: 20 },
+      { owner: 2, spender: 2, amount: 30 },
+    ]);
+
+    uow = drizzow(db);
+    queries = [];
+  });
+
+  function updateCount(table: string) {
+    return queries.filter((q) => q.startsWith(`update "${table}"`)).length;
+  }
+
+  it("should coalesce updates of the same columns into few statements", async () => {
+    const all = await uow.balances.findMany();
+    for (const balance of all) {
+      balance.amount = balance.id * 10;
+      balance.updatedBlock = 7;
+    }
+
+    await uow.save();
+
+    // 999 parameters / (2 columns * 2 + 1 key) = 199 rows per statement
+    expect(updateCount("balances")).toBe(3);
+    const rows = await db.select().from(balances).orderBy(asc(balances.id));
+    expect(rows.every((r) => r.amount === r.id * 10)).toBe(true);
+    expect(rows.every((r) => r.updatedBlock === 7)).toBe(true);
+  });
+
+  it("should group updates by the set of changed columns", async () => {
+    const [first, second, third] = await uow.balances.find({ id: [1, 2, 3] });
+    first!.amount = 100;
+    second!.amount = 200;
+    third!.holder = "0xrenamed";
+
+    await uow.save();
+
+    expect(updateCount("balances")).toBe(2);
+    const rows = await db.select().from(balances).orderBy(asc(balances.id));
+    expect(rows.slice(0, 4).map((r) => [r.holder, r.amount])).toEqual([
+      ["0x1", 100],
+      ["0x2", 200],
+      ["0xrenamed", 0],
+      ["0x4", 0],
+    ]);
+  });
+
+  it("should batch updates of tables with a composite key", async () => {
+    const found = await uow.allowances.find([
+      { owner: 1, spender: 2 },
+      { owner: 2, spender: 1 },
+    ]);
+    for (const allowance of found) {
+      allowance.amount = 0;
+    }
+
+    await uow.save();
+
+    expect(updateCount("allowances")).toBe(1);
+    const rows = await db
+      .select()
+      .from(allowances)
+      .orderBy(asc(allowances.owner), asc(allowances.spender));
+    expect(rows.map((r) => r.amount)).toEqual([0, 0, 30]);
+  });
+});
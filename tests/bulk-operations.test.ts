@@ -0,0 +1,272 @@
+import { describe, it, expect, beforeEach } from "bun:test";
+import { BunSQLiteDatabase, drizzle } from "drizzle-orm/bun-sqlite";
+import { Database } from "bun:sqlite";
+import { drizzow, type CreateUowReturnType } from "../src/bun-sqlite";
+import { asc, eq, sql } from "drizzle-orm";
+import { integer, sqliteTable, text } from "drizzle-orm/sqlite-core";
+
+// Define test schema
+const users = sqliteTable("users", {
+  id: integer().primaryKey(),
+  username: text().notNull(),
+  active: integer({ mode: "boolean" }).notNull().default(true),
+});
+
+const posts = sqliteTable("posts", {
+  id: integer().primaryKey(),
+  title: text().notNull(),
+  authorId: integer().references(() => users.id),
+});
+
+const schema = { users, posts };
+
+describe("Bulk update and delete", () => {
+  let db: BunSQLiteDatabase<typeof schema>;
+  let uow: CreateUowReturnType<BunSQLiteDatabase<typeof schema>>;
+  let queries: string[];
+
+  beforeEach(async () => {
+    const sqlite = new Database(":memory:");
+    queries = [];
+    db = drizzle(sqlite, {
+      schema,
+      logger: { logQuery: (query) => queries.push(query) },
+    });
+
+    db.run(`
+      CREATE TABLE users (
+        id INTEGER PRIMARY KEY,
+        username TEXT NOT NULL,
+        active INTEGER NOT NULL DEFAULT 1
+      )
+    `);
+    db.run(`
+      CREATE TABLE posts (
+        id INTEGER PRIMARY KEY,
+        title TEXT NOT NULL,
+        authorId INTEGER REFERENCES users(id)
+      )
+    `);
+
+    await db.insert(users).values([
+      { id: 1, username: "alice" },
+      { id: 2, username: "bob" },
+      { id: 3, username: "charlie" },
+    ]);
+    await db.insert(posts).values([
+      { id: 1, title: "Post 1", authorId: 1 },
+      { id: 2, title: "Post 2", authorId: 1 },
+      { id: 3, title: "Post 3", authorId: 2 },
+    ]);
+
+    uow = drizzow(db);
+    queries = [];
+  });
+
+  function statements() {
+    return queries.filter((q) => q !== "begin" && q !== "commit");
+  }
+
+  async function selectUsers() {
+    return db.select().from(users).orderBy(asc(users.id));
+  }
+
+  describe("updateWhere()", () => {
+    it("should update matching rows in one statement on save", async () => {
+      uow.users.updateWhere((user, { gt }) => gt(user.id, 1), {
+        active: false,
+      });
+
+      expect(queries).toHaveLength(0);
+      await uow.save();
+
+      expect(statements()).toEqual([
+        'update "users" set "active" = ? where "users"."id" > ?',
+      ]);
+      expect((await selectUsers()).map((user) => user.active)).toEqual([
+        true,
+        false,
+        false,
+      ]);
+    });
+
+    it("should update matching loaded entities", async () => {
+      const [alice, bob] = await uow.users.find({ id: [1, 2] });
+
+      uow.users.updateWhere((user, { eq }) => eq(user.id, 2), {
+        active: false,
+      });
+
+      expect(alice!.active).toBe(true);
+      expect(bob!.active).toBe(false);
+    });
+
+    it("should update matching created entities before they are inserted", async () => {
+      const dave = uow.users.create({ id: 4, username: "dave" });
+
+      uow.users.updateWhere((user, { like }) => like(user.username, "d%"), {
+        username: "david",
+      });
+      await uow.save();
+
+      expect(dave.username).toBe("david");
+      expect((await selectUsers())[3]!.username).toBe("david");
+    });
+
+    it("should accept SQL filters", async () => {
+      uow.users.updateWhere(eq(users.id, 2), { username: "robert" });
+      await uow.save();
+
+      expect((await selectUsers())[1]!.username).toBe("robert");
+    });
+
+    it("should reject SQL filters while entities of the table are loaded", async () => {
+      await uow.users.find({ id: 2 });
+
+      expect(() =>
+        uow.users.updateWhere(eq(users.id, 2), { username: "robert" }),
+      ).toThrow(
+        "Cannot evaluate the filter for 'users' in memory while entities of it are tracked",
+      );
+    });
+
+    it("should keep later changes to matching entities", async () => {
+      const bob = (await uow.users.find({ id: 2 }))!;
+
+      uow.users.updateWhere((user, { eq }) => eq(user.id, 2), {
+        username: "robert",
+      });
+      bob.username = "bobby";
+      await uow.save();
+
+      expect((await selectUsers())[1]!.username).toBe("bobby");
+    });
+
+    it("should reject changes to the primary key", () => {
+      expect(() =>
+        uow.users.updateWhere((user, { eq }) => eq(user.id, 2), { id: 5 }),
+      ).toThrow(
+        "Cannot change primary key column 'id' of table 'users' with updateWhere()",
+      );
+    });
+  });
+
+  describe("deleteWhere()", () => {
+    it("should delete matching rows in one statement on save", async () => {
+      uow.posts.deleteWhere((post, { eq }) => eq(post.authorId, 1));
+
+      await uow.save();
+
+      expect(statements()).toEqual([
+        'delete from "posts" where "posts"."authorId" = ?',
+      ]);
+      expect(await db.select().from(posts)).toEqual([
+        { id: 3, title: "Post 3", authorId: 2 },
+      ]);
+    });
+
+    it("should delete matching loaded entities", async () => {
+      const [first, third] = await uow.posts.find({ id: [1, 3] });
+
+      uow.posts.deleteWhere((post, { eq }) => eq(post.authorId, 1));
+
+      expect(await uow.posts.find({ id: 1 })).toBeUndefined();
+      expect(await uow.posts.find({ id: 3 })).toBe(third!);
+      expect(() => (first!.title = "changed")).toThrow();
+    });
+
+    it("should delete children before their tracked parent", async () => {
+      db.run(sql`PRAGMA foreign_keys = ON`);
+      const alice = (await uow.users.find({ id: 1 }))!;
+
+      uow.posts.deleteWhere((post, { eq }) => eq(post.authorId, 1));
+      uow.users.delete(alice);
+      await uow.save();
+
+      expect(await selectUsers()).toHaveLength(2);
+      expect(await db.select().from(posts)).toHaveLength(1);
+    });
+
+    it("should not delete entities created after it was queued", async () => {
+      uow.posts.deleteWhere((post, { eq }) => eq(post.authorId, 1));
+      uow.posts.create({ id: 4, title: "Post 4", authorId: 1 });
+
+      await uow.save();
+
+      expect((await db.select().from(posts)).map((post) => post.id)).toEqual([
+        3, 4,
+      ]);
+    });
+
+    it("should drop queued operations on clear()", async () => {
+      uow.posts.deleteWhere((post, { eq }) => eq(post.authorId, 1));
+
+      uow.clear();
+      await uow.save();
+
+      expect(await db.select().from(posts)).toHaveLength(3);
+    });
+
+    it("should reject SQL filters while entities of the table are loaded", async () => {
+      const alice = (await uow.users.find({ id: 1 }))!;
+
+      expect(() => uow.users.deleteWhere(eq(users.id, 1))).toThrow(
+        "Cannot evaluate the filter for 'users' in memory",
+      );
+
+      alice.username = "alice cooper";
+      await uow.save();
+      expect((await selectUsers())[0]!.username).toBe("alice cooper");
+    });
+
+    it("should require a filter", () => {
+      expect(() => uow.posts.deleteWhere(undefined as any)).toThrow(
+        "A filter is required to update or delete rows of 'posts'",
+      );
+    });
+  });
+
+  describe("with checkpoints", () => {
+    it("should drop operations queued after a rolled back checkpoint", async () => {
+      uow.users.updateWhere((user, { eq }) => eq(user.id, 1), {
+        username: "alice cooper",
+      });
+      const checkpoint = uow.setCheckpoint();
+      uow.posts.deleteWhere((post, { eq }) => eq(post.authorId, 1));
+
+      uow.rollback(checkpoint);
+      await uow.save();
+
+      expect((await selectUsers())[0]!.username).toBe("alice cooper");
+      expect(await db.select().from(posts)).toHaveLength(3);
+    });
+
+    it("should save operations queued up to a checkpoint", async () => {
+      uow.users.updateWhere((user, { eq }) => eq(user.id, 1), {
+        username: "alice cooper",
+      });
+      const checkpoint = uow.setCheckpoint();
+      uow.posts.deleteWhere((post, { eq }) => eq(post.authorId, 1));
+
+      await uow.save(checkpoint);
+      expect((await selectUsers())[0]!.username).toBe("alice cooper");
+      expect(await db.select().from(posts)).toHaveLength(3);
+
+      await uow.save();
+      expect(await db.select().from(posts)).toHaveLength(1);
+    });
+
+    it("should keep queued operations when the save fails", async () => {
+      uow.posts.deleteWhere((post, { eq }) => eq(post.authorId, 2));
+      const checkpoint = uow.setCheckpoint();
+      uow.users.create({ id: 1, username: "duplicate" });
+
+      await expect(uow.save()).rejects.toThrow();
+      expect(await db.select().from(posts)).toHaveLength(3);
+
+      uow.rollback(checkpoint);
+      await uow.save();
+      expect(await db.select().from(posts)).toHaveLength(2);
+    });
+  });
+});
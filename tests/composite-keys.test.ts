@@ -0,0 +1,151 @@
+import { describe, it, expect, beforeEach } from "bun:test";
+import { BunSQLiteDatabase, drizzle } from "drizzle-orm/bun-sqlite";
+import { Database } from "bun:sqlite";
+import { drizzow, type CreateUowReturnType } from "../src/bun-sqlite";
+import { BunSQLiteAdapter } from "../src/bun-sqlite/adapter";
+import { asc } from "drizzle-orm";
+import {
+  integer,
+  primaryKey,
+  sqliteTable,
+  text,
+} from "drizzle-orm/sqlite-core";
+
+// Define test schema with a composite primary key
+const memberships = sqliteTable(
+  "memberships",
+  {
+    orgId: integer("org_id").notNull(),
+    userId: integer("user_id").notNull(),
+    role: text().notNull(),
+  },
+  (t) => [primaryKey({ columns: [t.orgId, t.userId] })],
+);
+
+const schema = { memberships };
+
+describe("Composite Primary Keys", () => {
+  let db: BunSQLiteDatabase<typeof schema>;
+  let uow: CreateUowReturnType<BunSQLiteDatabase<typeof schema>>;
+
+  beforeEach(async () => {
+    const sqlite = new Database(":memory:");
+    db = drizzle(sqlite, { schema });
+
+    db.run(`
+      CREATE TABLE memberships (
+        org_id INTEGER NOT NULL,
+        user_id INTEGER NOT NULL,
+        role TEXT NOT NULL,
+        PRIMARY KEY (org_id, user_id)
+      )
+    `);
+
+    await db.insert(memberships).values([
+      { orgId: 1, userId: 1, role: "owner" },
+      { orgId: 1, userId: 2, role: "member" },
+      { orgId: 2, userId: 1, role: "member" },
+    ]);
+
+    uow = drizzow(db);
+  });
+
+  async function allRows() {
+    return db
+      .select()
+      .from(memberships)
+      .orderBy(asc(memberships.orgId), asc(memberships.userId));
+  }
+
+  it("should extract all primary key columns", () => {
+    const adapter = new BunSQLiteAdapter(db);
+
+    expect(Object.keys(adapter.getPrimaryKeyColumns(memberships))).toEqual([
+      "orgId",
+      "userId",
+    ]);
+    expect(
+      adapter.extractPrimaryKeyValue(memberships, {
+        orgId: 2,
+        userId: 1,
+        role: "member",
+      }),
+    ).toEqual([2, 1]);
+  });
+
+  it("should find a single entity by its composite key", async () => {
+    const membership = await uow.memberships.find({ orgId: 1, userId: 2 });
+
+    expect(membership?.role).toBe("member");
+    expect(await uow.memberships.find({ orgId: 1, userId: 2 })).toBe(
+      membership!,
+    );
+  });
+
+  it("should find many entities from an array of keys", async () => {
+    const found = await uow.memberships.find([
+      { orgId: 1, userId: 1 },
+      { orgId: 2, userId: 1 },
+      { orgId: 9, userId: 9 },
+    ]);
+
+    expect(found.map((m) => m.role).sort()).toEqual(["member", "owner"]);
+  });
+
+  it("should find many entities from per-column arrays", async () => {
+    const found = await uow.memberships.find({
+      orgId: [1, 2],
+      userId: [2, 1],
+    });
+
+    expect(found.length).toBe(2);
+    expect(found.every((m) => m.role === "member")).toBe(true);
+  });
+
+  it("should require every primary key column", async () => {
+    await expect(uow.memberships.find({ orgId: 1 })).rejects.toThrow(
+      "Missing primary key column(s) userId",
+    );
+  });
+
+  it("should update only the matching row", async () => {
+    const membership = await uow.memberships.find({ orgId: 1, userId: 2 });
+    membership!.role = "admin";
+
+    await uow.save();
+
+    const rows = await allRows();
+    expect(rows.map((r) => r.role)).toEqual(["owner", "admin", "member"]);
+  });
+
+  it("should delete only the matching row", async () => {
+    const membership = await uow.memberships.find({ orgId: 2, userId: 1 });
+    uow.memberships.delete(membership!);
+
+    await uow.save();
+
+    const rows = await allRows();
+    expect(rows.map((r) => [r.orgId, r.userId])).toEqual([
+      [1, 1],
+      [1, 2],
+    ]);
+  });
+
+  it("should create entities with a composite key", async () => {
+    const created = uow.memberships.create({
+      orgId: 2,
+      userId: 2,
+      role: "owner",
+    });
+
+    expect(await uow.memberships.find({ orgId: 2, userId: 2 })).toBe(created);
+    expect(() =>
+      uow.memberships.create({ orgId: 2, userId: 2, role: "member" }),
+    ).toThrow("already exists");
+
+    await uow.save();
+
+    const rows = await allRows();
+    expect(rows.length).toBe(4);
+  });
+});
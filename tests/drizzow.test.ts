@@ -0,0 +1,109 @@
+import { describe, it, expect } from "bun:test";
+import { Database } from "bun:sqlite";
+import { DatabaseSync } from "node:sqlite";
+import BetterSqlite3 from "better-sqlite3";
+import { createClient } from "@libsql/client";
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle as drizzleBunSqlite } from "drizzle-orm/bun-sqlite";
+import { drizzle as drizzleBetterSqlite3 } from "drizzle-orm/better-sqlite3";
+import { drizzle as drizzleSqliteProxy } from "drizzle-orm/sqlite-proxy";
+import { drizzle as drizzleLibsql } from "drizzle-orm/libsql";
+import { drizzle as drizzlePglite } from "drizzle-orm/pglite";
+import { drizzle as drizzleNodePostgres } from "drizzle-orm/node-postgres";
+import { drizzle as drizzleMysql2 } from "drizzle-orm/mysql2";
+import { integer, sqliteTable, text } from "drizzle-orm/sqlite-core";
+import { pgTable, serial } from "drizzle-orm/pg-core";
+import { mysqlTable, int } from "drizzle-orm/mysql-core";
+import {
+  drizzow,
+  BunSQLiteAdapter,
+  BetterSQLite3Adapter,
+  NodeSqliteAdapter,
+  LibSQLAdapter,
+  PgliteAdapter,
+  NodePostgresAdapter,
+  MySql2Adapter,
+} from "../src";
+import { createNodeSqliteCallback } from "../src/node-sqlite";
+
+// Define test schema
+const users = sqliteTable("users", {
+  id: integer().primaryKey(),
+  name: text().notNull(),
+});
+
+const schema = { users };
+const pgSchema = { users: pgTable("users", { id: serial().primaryKey() }) };
+const mysqlSchema = { users: mysqlTable("users", { id: int().primaryKey() }) };
+
+function adapterOf(uow: object) {
+  return (uow as any).adapter;
+}
+
+describe("drizzow", () => {
+  it("should detect the adapter of each driver", async () => {
+    const pglite = new PGlite();
+    const libsql = createClient({ url: ":memory:" });
+
+    const detected = [
+      drizzow(drizzleBunSqlite(new Database(":memory:"), { schema })),
+      drizzow(drizzleBetterSqlite3(new BetterSqlite3(":memory:"), { schema })),
+      drizzow(drizzleLibsql(libsql, { schema })),
+      drizzow(drizzlePglite(pglite, { schema: pgSchema })),
+      drizzow(drizzleNodePostgres.mock({ schema: pgSchema })),
+      drizzow(drizzleMysql2.mock({ schema: mysqlSchema, mode: "default" })),
+    ].map(adapterOf);
+
+    expect(detected[0]).toBeInstanceOf(BunSQLiteAdapter);
+    expect(detected[1]).toBeInstanceOf(BetterSQLite3Adapter);
+    expect(detected[2]).toBeInstanceOf(LibSQLAdapter);
+    expect(detected[3]).toBeInstanceOf(PgliteAdapter);
+    expect(detected[4]).toBeInstanceOf(NodePostgresAdapter);
+    expect(detected[5]).toBeInstanceOf(MySql2Adapter);
+
+    libsql.close();
+    await pglite.close();
+  });
+
+  it("should save through the detected adapter", async () => {
+    const db = drizzleBunSqlite(new Database(":memory:"), { schema });
+    db.run(`CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT NOT NULL)`);
+
+    const uow = drizzow(db);
+    uow.users.create({ id: 1, name: "alice" });
+    await uow.save();
+
+    expect(await db.select().from(users)).toEqual([{ id: 1, name: "alice" }]);
+  });
+
+  it("should use the adapter it is given", () => {
+    const db = drizzleBunSqlite(new Database(":memory:"), { schema });
+    const adapter = new BetterSQLite3Adapter(db as any);
+
+    expect(adapterOf(drizzow(db, { adapter }))).toBe(adapter);
+  });
+
+  it("should require an adapter for sqlite-proxy databases", () => {
+    const db = drizzleSqliteProxy(
+      createNodeSqliteCallback(new DatabaseSync(":memory:")),
+      { schema },
+    );
+    const adapter = new NodeSqliteAdapter(db);
+
+    expect(() => drizzow(db)).toThrow(
+      "Cannot detect the adapter for Drizzle session SQLiteRemoteSession",
+    );
+    expect(adapterOf(drizzow(db, { adapter }))).toBe(adapter);
+  });
+
+  it("should reject databases of unknown drivers", () => {
+    const db = drizzleBunSqlite(new Database(":memory:"), { schema });
+    const unknown = Object.assign(Object.create(db), {
+      session: new (class CustomSession {})(),
+    });
+
+    expect(() => drizzow(unknown)).toThrow(
+      "Cannot detect the adapter for Drizzle session (unknown)",
+    );
+  });
+});
@@ -0,0 +1,147 @@
+import { describe, it, expect, beforeEach } from "bun:test";
+import { BunSQLiteDatabase, drizzle } from "drizzle-orm/bun-sqlite";
+import { Database } from "bun:sqlite";
+import { drizzow, type CreateUowReturnType } from "../src/bun-sqlite";
+import { gt } from "drizzle-orm";
+import { integer, sqliteTable, text } from "drizzle-orm/sqlite-core";
+
+// Define test schema
+const accounts = sqliteTable("accounts", {
+  id: integer().primaryKey(),
+  owner: text().notNull(),
+  balance: integer().notNull(),
+});
+
+const schema = { accounts };
+
+describe("findMany() with arbitrary filters", () => {
+  let db: BunSQLiteDatabase<typeof schema>;
+  let uow: CreateUowReturnType<BunSQLiteDatabase<typeof schema>>;
+
+  beforeEach(async () => {
+    const sqlite = new Database(":memory:");
+    db = drizzle(sqlite, { schema });
+
+    db.run(`
+      CREATE TABLE accounts (
+        id INTEGER PRIMARY KEY,
+        owner TEXT NOT NULL,
+        balance INTEGER NOT NULL
+      )
+    `);
+
+    await db.insert(accounts).values([
+      { id: 1, owner: "alice", balance: 100 },
+      { id: 2, owner: "bob", balance: 50 },
+      { id: 3, owner: "charlie", balance: 10 },
+    ]);
+
+    uow = drizzow(db);
+  });
+
+  it("should query with a raw SQL filter", async () => {
+    const rich = await uow.accounts.findMany({
+      where: gt(accounts.balance, 20),
+    });
+
+    expect(rich.map((a) => a.owner).sort()).toEqual(["alice", "bob"]);
+    expect(uow.getStats().trackedEntities).toBe(2);
+  });
+
+  it("should apply orderBy and limit", async () => {
+    const top = await uow.accounts.findMany({
+      orderBy: (a, { desc }) => desc(a.balance),
+      limit: 2,
+    });
+
+    expect(top.map((a) => a.owner)).toEqual(["alice", "bob"]);
+  });
+
+  it("should return identity-mapped entities with in-memory changes", async () => {
+    const alice = await uow.accounts.find({ id: 1 });
+    alice!.balance = 999;
+
+    const all = await uow.accounts.findMany();
+    const loaded = all.find((a) => a.id === 1);
+
+    expect(loaded).toBe(alice!);
+    expect(loaded!.balance).toBe(999);
+  });
+
+  it("should exclude deleted entities", async () => {
+    const bob = await uow.accounts.find({ id: 2 });
+    uow.accounts.delete(bob!);
+
+    const all = await uow.accounts.findMany();
+
+    expect(all.map((a) => a.id).sort()).toEqual([1, 3]);
+  });
+
+  it("should still fill the limit when loaded rows are deleted", async () => {
+    const alice = await uow.accounts.find({ id: 1 });
+    uow.accounts.delete(alice!);
+
+    const top = await uow.accounts.findMany({
+      orderBy: (a, { desc }) => desc(a.balance),
+      limit: 2,
+    });
+
+    expect(top.map((a) => a.owner)).toEqual(["bob", "charlie"]);
+  });
+
+  it("should not include added entities by default", async () => {
+    uow.accounts.create({ id: 4, owner: "dave", balance: 500 });
+
+    const all = await uow.accounts.findMany();
+
+    expect(all.length).toBe(3);
+  });
+
+  it("should include matching added entities when requested", async () => {
+    uow.accounts.create({ id: 4, owner: "dave", balance: 500 });
+    uow.accounts.create({ id: 5, owner: "erin", balance: 1 });
+
+    const top = await uow.accounts.findMany({
+      where: (a, { gt }) => gt(a.balance, 20),
+      orderBy: (a, { desc }) => desc(a.balance),
+      limit: 2,
+      includeAdded: true,
+    });
+
+    expect(top.map((a) => a.owner)).toEqual(["dave", "alice"]);
+  });
+
+  it("should reject includeAdded with filters it cannot evaluate", async () => {
+    await expect(
+      uow.accounts.findMany({
+        where: gt(accounts.balance, 20),
+        includeAdded: true,
+      }),
+    ).rejects.toThrow("Cannot evaluate the filter");
+  });
+
+  it("should match loaded entities by their unsaved values", async () => {
+    const [alice, , charlie] = await uow.accounts.find({ id: [1, 2, 3] });
+    alice!.balance = 5;
+    charlie!.balance = 500;
+
+    const top = await uow.accounts.findMany({
+      where: (a, { gt }) => gt(a.balance, 20),
+      orderBy: (a, { desc }) => desc(a.balance),
+      limit: 2,
+    });
+
+    expect(top.map((a) => a.owner)).toEqual(["charlie", "bob"]);
+  });
+
+  it("should match loaded entities by their saved values with SQL filters", async () => {
+    const alice = await uow.accounts.find({ id: 1 });
+    alice!.balance = 5;
+
+    const rich = await uow.accounts.findMany({
+      where: gt(accounts.balance, 20),
+    });
+
+    expect(rich).toContain(alice!);
+  });
+});
@@ -0,0 +1,186 @@
+import { describe, it, expect, beforeEach } from "bun:test";
+import { BunSQLiteDatabase, drizzle } from "drizzle-orm/bun-sqlite";
+import { Database } from "bun:sqlite";
+import { drizzow, type CreateUowReturnType } from "../src/bun-sqlite";
+import { eq, relations } from "drizzle-orm";
+import { integer, sqliteTable, text } from "drizzle-orm/sqlite-core";
+
+// Define test schema with relations
+const users = sqliteTable("users", {
+  id: integer().primaryKey({ autoIncrement: true }),
+  username: text().notNull(),
+});
+
+const posts = sqliteTable("posts", {
+  id: integer().primaryKey({ autoIncrement: true }),
+  title: text().notNull(),
+  authorId: integer().notNull(),
+});
+
+const usersRelations = relations(users, ({ many }) => ({
+  posts: many(posts),
+}));
+
+const postsRelations = relations(posts, ({ one }) => ({
+  author: one(users, { fields: [posts.authorId], references: [users.id] }),
+}));
+
+const schema = { users, posts, usersRelations, postsRelations };
+
+describe("find() with relations", () => {
+  let db: BunSQLiteDatabase<typeof schema>;
+  let uow: CreateUowReturnType<BunSQLiteDatabase<typeof schema>>;
+
+  beforeEach(async () => {
+    const sqlite = new Database(":memory:");
+    db = drizzle(sqlite, { schema });
+
+    db.run(`
+      CREATE TABLE users (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        username TEXT NOT NULL
+      )
+    `);
+
+    db.run(`
+      CREATE TABLE posts (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        title TEXT NOT NULL,
+        authorId INTEGER NOT NULL
+      )
+    `);
+
+    await db.insert(users).values([
+      { id: 1, username: "alice" },
+      { id: 2, username: "bob" },
+    ]);
+    await db.insert(posts).values([
+      { id: 1, title: "First", authorId: 1 },
+      { id: 2, title: "Second", authorId: 1 },
+      { id: 3, title: "Third", authorId: 2 },
+    ]);
+
+    uow = drizzow(db);
+  });
+
+  it("should load many relations", async () => {
+    const user = await uow.users.find({ id: 1 }, { with: { posts: true } });
+
+    expect(user).toBeDefined();
+    expect(user!.posts.map((p) => p.title).sort()).toEqual([
+      "First",
+      "Second",
+    ]);
+    expect(uow.getStats().trackedEntities).toBe(3);
+  });
+
+  it("should load one relations for multiple entities", async () => {
+    const loaded = await uow.posts.find(
+      { id: [1, 3] },
+      { with: { author: true } },
+    );
+
+    expect(loaded.length).toBe(2);
+    const authors = loaded.map((p) => p.author?.username).sort();
+    expect(authors).toEqual(["alice", "bob"]);
+  });
+
+  it("should load nested relations", async () => {
+    const user = await uow.users.find(
+      { id: 1 },
+      { with: { posts: { with: { author: true } } } },
+    );
+
+    // The nested author is the same tracked instance as the root entity
+    expect(user!.posts[0]!.author).toBe(user!);
+  });
+
+  it("should register related rows in the identity map", async () => {
+    const user = await uow.users.find({ id: 1 }, { with: { posts: true } });
+    const post = await uow.posts.find({ id: 1 });
+
+    expect(user!.posts).toContain(post!);
+    expect(uow.getStats().identityMapSize).toBe(3);
+  });
+
+  it("should reuse already loaded entities and keep their changes", async () => {
+    const post = await uow.posts.find({ id: 1 });
+    post!.title = "Edited";
+
+    const user = await uow.users.find({ id: 1 }, { with: { posts: true } });
+    const loadedPost = user!.posts.find((p) => p.id === 1);
+
+    expect(loadedPost).toBe(post!);
+    expect(loadedPost!.title).toBe("Edited");
+  });
+
+  it("should save changes made to related rows", async () => {
+    const user = await uow.users.find({ id: 1 }, { with: { posts: true } });
+    user!.posts[0]!.title = "Updated through relation";
+
+    expect(uow.getStats().pendingChanges).toBe(1);
+
+    await uow.save();
+
+    const saved = await db
+      .select()
+      .from(posts)
+      .where(eq(posts.id, user!.posts[0]!.id));
+    expect(saved[0]!.title).toBe("Updated through relation");
+  });
+
+  it("should not track relations as column changes", async () => {
+    const user = await uow.users.find({ id: 1 }, { with: { posts: true } });
+
+    expect(Object.keys(user!)).not.toContain("posts");
+
+    user!.posts = [];
+
+    expect(uow.getStats().pendingChanges).toBe(0);
+  });
+
+  it("should exclude deleted related rows", async () => {
+    const post = await uow.posts.find({ id: 1 });
+    uow.posts.delete(post!);
+
+    const user = await uow.users.find({ id: 1 }, { with: { posts: true } });
+
+    expect(user!.posts.map((p) => p.id)).toEqual([2]);
+  });
+
+  it("should return created entities with empty relations", async () => {
+    uow.users.create({ id: 3, username: "charlie" });
+
+    const user = await uow.users.find({ id: 3 }, { with: { posts: true } });
+
+    expect(user!.username).toBe("charlie");
+    expect(user!.posts).toEqual([]);
+  });
+
+  it("should load relations of entities matching by their unsaved values", async () => {
+    const bob = (await uow.users.find({ id: 2 }))!;
+    bob.username = "alicia";
+
+    const found = await uow.users.findMany({
+      where: (user, { like }) => like(user.username, "ali%"),
+      with: { posts: true },
+    });
+
+    expect(found.map((user) => user.username).sort()).toEqual([
+      "alice",
+      "alicia",
+    ]);
+    const alicia = found.find((user) => user.id === 2)!;
+    expect(alicia as object).toBe(bob);
+    expect(alicia.posts.map((p) => p.title)).toEqual(["Third"]);
+  });
+
+  it("should reject partial column selections", async () => {
+    await expect(
+      uow.users.find(
+        { id: 1 },
+        { with: { posts: { columns: { title: true } } } },
+      ),
+    ).rejects.toThrow("only full rows can be tracked");
+  });
+});
@@ -0,0 +1,180 @@
+import { describe, it, expect, beforeEach } from "bun:test";
+import { BunSQLiteDatabase, drizzle } from "drizzle-orm/bun-sqlite";
+import { Database } from "bun:sqlite";
+import { drizzow, type CreateUowReturnType } from "../src/bun-sqlite";
+import {
+  integer,
+  sqliteTable,
+  text,
+  type AnySQLiteColumn,
+} from "drizzle-orm/sqlite-core";
+
+// Define test schema: comments -> posts -> authors, categories -> categories
+const authors = sqliteTable("authors", {
+  id: integer().primaryKey(),
+  name: text().notNull(),
+});
+
+const posts = sqliteTable("posts", {
+  id: integer().primaryKey(),
+  authorId: integer("author_id")
+    .notNull()
+    .references(() => authors.id),
+  title: text().notNull(),
+});
+
+const comments = sqliteTable("comments", {
+  id: integer().primaryKey(),
+  postId: integer("post_id")
+    .notNull()
+    .references(() => posts.id),
+  body: text().notNull(),
+});
+
+const categories = sqliteTable("categories", {
+  id: integer().primaryKey(),
+  parentId: integer("parent_id").references(
+    (): AnySQLiteColumn => categories.id,
+  ),
+});
+
+// Two tables referencing each other
+const teams = sqliteTable("teams", {
+  id: integer().primaryKey(),
+  captainId: integer("captain_id").references(
+    (): AnySQLiteColumn => players.id,
+  ),
+});
+
+const players = sqliteTable("players", {
+  id: integer().primaryKey(),
+  teamId: integer("team_id").references((): AnySQLiteColumn => teams.id),
+});
+
+const schema = { authors, posts, comments, categories, teams, players };
+
+describe("Foreign key ordering", () => {
+  let db: BunSQLiteDatabase<typeof schema>;
+  let uow: CreateUowReturnType<BunSQLiteDatabase<typeof schema>>;
+
+  beforeEach(() => {
+    const sqlite = new Database(":memory:");
+    db = drizzle(sqlite, { schema });
+
+    db.run(`PRAGMA foreign_keys = ON`);
+    db.run(`
+      CREATE TABLE authors (
+        id INTEGER PRIMARY KEY,
+        name TEXT NOT NULL
+      )
+    `);
+    db.run(`
+      CREATE TABLE posts (
+        id INTEGER PRIMARY KEY,
+        author_id INTEGER NOT NULL REFERENCES authors(id),
+        title TEXT NOT NULL
+      )
+    `);
+    db.run(`
+      CREATE TABLE comments (
+        id INTEGER PRIMARY KEY,
+        post_id INTEGER NOT NULL REFERENCES posts(id),
+        body TEXT NOT NULL
+      )
+    `);
+    db.run(`
+      CREATE TABLE categories (
+        id INTEGER PRIMARY KEY,
+        parent_id INTEGER REFERENCES categories(id)
+      )
+    `);
+    db.run(`
+      CREATE TABLE teams (
+        id INTEGER PRIMARY KEY,
+        captain_id INTEGER REFERENCES players(id)
+      )
+    `);
+    db.run(`
+      CREATE TABLE players (
+        id INTEGER PRIMARY KEY,
+        team_id INTEGER REFERENCES teams(id)
+      )
+    `);
+
+    uow = drizzow(db);
+  });
+
+  it("should insert parents before children", async () => {
+    uow.comments.create({ id: 1, postId: 1, body: "First!" });
+    uow.posts.create({ id: 1, authorId: 1, title: "Hello" });
+    uow.authors.create({ id: 1, name: "alice" });
+
+    await uow.save();
+
+    expect((await db.select().from(comments)).length).toBe(1);
+  });
+
+  it("should delete children before parents", async () => {
+    await db.insert(authors).values({ id: 1, name: "alice" });
+    await db.insert(posts).values({ id: 1, authorId: 1, title: "Hello" });
+    await db.insert(comments).values({ id: 1, postId: 1, body: "First!" });
+
+    uow.authors.delete((await uow.authors.find({ id: 1 }))!);
+    uow.posts.delete((await uow.posts.find({ id: 1 }))!);
+    uow.comments.delete((await uow.comments.find({ id: 1 }))!);
+
+    await uow.save();
+
+    expect((await db.select().from(authors)).length).toBe(0);
+  });
+
+  it("should ignore self-references", async () => {
+    uow.categories.create({ id: 1, parentId: null });
+    uow.categories.create({ id: 2, parentId: 1 });
+
+    await uow.save();
+
+    expect((await db.select().from(categories)).length).toBe(2);
+  });
+
+  it("should insert rows of tables referencing each other through null keys", async () => {
+    uow.teams.create({ id: 1, captainId: null });
+    uow.players.create({ id: 1, teamId: 1 });
+
+    await uow.save();
+
+    expect(await db.select().from(players)).toEqual([{ id: 1, teamId: 1 }]);
+  });
+
+  it("should order rows one by one when their tables reference each other", async () => {
+    uow.players.create({ id: 1, teamId: 1 });
+    uow.teams.create({ id: 1, captainId: 2 });
+    uow.players.create({ id: 2, teamId: null });
+
+    await uow.save();
+
+    expect(await db.select().from(teams)).toEqual([{ id: 1, captainId: 2 }]);
+    expect((await db.select().from(players)).length).toBe(2);
+  });
+
+  it("should delete rows of tables referencing each other", async () => {
+    await db.insert(teams).values({ id: 1, captainId: null });
+    await db.insert(players).values({ id: 1, teamId: 1 });
+
+    uow.teams.delete((await uow.teams.find({ id: 1 }))!);
+    uow.players.delete((await uow.players.find({ id: 1 }))!);
+
+    await uow.save();
+
+    expect((await db.select().from(teams)).length).toBe(0);
+  });
+
+  it("should reject rows referencing each other", async () => {
+    uow.teams.create({ id: 1, captainId: 1 });
+    uow.players.create({ id: 1, teamId: 1 });
+
+    await expect(uow.save()).rejects.toThrow(
+      "foreign keys form a cycle (teams -> players -> teams)",
+    );
+  });
+});
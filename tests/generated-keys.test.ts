@@ -0,0 +1,100 @@
+import { describe, it, expect, beforeEach } from "bun:test";
+import { BunSQLiteDatabase, drizzle } from "drizzle-orm/bun-sqlite";
+import { Database } from "bun:sqlite";
+import { drizzow, type CreateUowReturnType } from "../src/bun-sqlite";
+import { eq } from "drizzle-orm";
+import { integer, sqliteTable, text } from "drizzle-orm/sqlite-core";
+
+// Define test schema with an auto-increment primary key
+const users = sqliteTable("users", {
+  id: integer().primaryKey({ autoIncrement: true }),
+  username: text().notNull(),
+  status: text().notNull().default("active"),
+});
+
+const schema = { users };
+
+describe("Database-generated primary keys", () => {
+  let db: BunSQLiteDatabase<typeof schema>;
+  let uow: CreateUowReturnType<BunSQLiteDatabase<typeof schema>>;
+
+  beforeEach(async () => {
+    const sqlite = new Database(":memory:");
+    db = drizzle(sqlite, { schema });
+
+    db.run(`
+      CREATE TABLE users (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        username TEXT NOT NULL,
+        status TEXT NOT NULL DEFAULT 'active'
+      )
+    `);
+
+    await db.insert(users).values({ username: "existing" });
+
+    uow = drizzow(db);
+  });
+
+  it("should accept creates without a primary key", () => {
+    const user = uow.users.create({ username: "alice" });
+
+    expect(user.id).toBeUndefined();
+    expect(uow.getStats().trackedEntities).toBe(1);
+    // Transient entities stay out of the identity map until saved
+    expect(uow.getStats().identityMapSize).toBe(0);
+  });
+
+  it("should fill in the generated key on save", async () => {
+    const alice = uow.users.create({ username: "alice" });
+    const bob = uow.users.create({ username: "bob" });
+
+    await uow.save();
+
+    expect(alice.id).toBe(2);
+    expect(bob.id).toBe(3);
+    expect(alice.status).toBe("active");
+
+    const saved = await db.select().from(users).where(eq(users.id, 2));
+    expect(saved[0]!.username).toBe("alice");
+  });
+
+  it("should re-key transient entities saved at a checkpoint", async () => {
+    const alice = uow.users.create({ username: "alice" });
+    const checkpoint = uow.setCheckpoint();
+
+    await uow.save(checkpoint);
+
+    expect(alice.id).toBe(2);
+    expect(uow.getStats().pendingChanges).toBe(0);
+    expect(await uow.users.find({ id: 2 })).toBe(alice);
+
+    alice.username = "alice_renamed";
+    expect(uow.getStats().pendingChanges).toBe(1);
+
+    await uow.save();
+
+    const saved = await db.select().from(users).where(eq(users.id, 2));
+    expect(saved[0]!.username).toBe("alice_renamed");
+  });
+
+  it("should drop transient entities deleted before save", async () => {
+    const alice = uow.users.create({ username: "alice" });
+    uow.users.delete(alice);
+
+    expect(uow.getStats().pendingChanges).toBe(0);
+
+    await uow.save();
+
+    const all = await db.select().from(users);
+    expect(all.length).toBe(1);
+  });
+
+  it("should not write generated keys when the save fails", async () => {
+    const alice = uow.users.create({ username: "alice" });
+    uow.users.create({ id: 1, username: "duplicate" });
+
+    await expect(uow.save()).rejects.toThrow("Failed to save changes");
+
+    expect(alice.id).toBeUndefined();
+  });
+});
@@ -0,0 +1,255 @@
+import { describe, it, expect, beforeEach } from "bun:test";
+import { BunSQLiteDatabase, drizzle } from "drizzle-orm/bun-sqlite";
+import { Database } from "bun:sqlite";
+import { drizzow, type CreateUowReturnType } from "../src/bun-sqlite";
+import { ConcurrencyConflictError } from "../src";
+import { asc } from "drizzle-orm";
+import { integer, sqliteTable, text } from "drizzle-orm/sqlite-core";
+
+// Define test schema
+const accounts = sqliteTable("accounts", {
+  id: integer().primaryKey(),
+  owner: text().notNull(),
+  balance: integer().notNull(),
+  version: integer().notNull().default(1),
+});
+
+const documents = sqliteTable("documents", {
+  id: integer().primaryKey(),
+  title: text().notNull(),
+  updatedAt: integer({ mode: "timestamp_ms" }).notNull(),
+});
+
+const schema = { accounts, documents };
+
+describe("Optimistic concurrency", () => {
+  let db: BunSQLiteDatabase<typeof schema>;
+  let uow: CreateUowReturnType<BunSQLiteDatabase<typeof schema>>;
+
+  function createUow() {
+    return drizzow(db, {
+      versionColumns: { accounts: "version", documents: "updatedAt" },
+    });
+  }
+
+  beforeEach(async () => {
+    db = drizzle(new Database(":memory:"), { schema });
+
+    db.run(`
+      CREATE TABLE accounts (
+        id INTEGER PRIMARY KEY,
+        owner TEXT NOT NULL,
+        balance INTEGER NOT NULL,
+        version INTEGER NOT NULL DEFAULT 1
+      )
+    `);
+    db.run(`
+      CREATE TABLE documents (
+        id INTEGER PRIMARY KEY,
+        title TEXT NOT NULL,
+        updatedAt INTEGER NOT NULL
+      )
+    `);
+
+    await db.insert(accounts).values([
+      { id: 1, owner: "alice", balance: 100, version: 1 },
+      { id: 2, owner: "bob", balance: 50, version: 1 },
+    ]);
+    await db
+      .insert(documents)
+      .values({ id: 1, title: "Draft", updatedAt: new Date(1000) });
+
+    uow = createUow();
+  });
+
+  async function selectAccounts() {
+    return db.select().from(accounts).orderBy(asc(accounts.id));
+  }
+
+  it("should increment the version of updated rows", async () => {
+    const alice = (await uow.accounts.find({ id: 1 }))!;
+    alice.balance -= 10;
+
+    await uow.save();
+
+    expect(alice.version).toBe(2);
+    expect((await selectAccounts())[0]).toEqual({
+      id: 1,
+      owner: "alice",
+      balance: 90,
+      version: 2,
+    });
+  });
+
+  it("should set the initial version of created rows", async () => {
+    const carol = uow.accounts.create({ id: 3, owner: "carol", balance: 0 });
+
+    await uow.save();
+
+    expect(carol.version).toBe(1);
+    expect((await selectAccounts())[2]!.version).toBe(1);
+  });
+
+  it("should reject updates of rows changed since they were loaded", async () => {
+    const alice = (await uow.accounts.find({ id: 1 }))!;
+    const bob = (await uow.accounts.find({ id: 2 }))!;
+
+    const other = createUow();
+    (await other.accounts.find({ id: 1 }))!.balance = 0;
+    await other.save();
+
+    alice.balance -= 10;
+    bob.balance += 10;
+    const error = await uow.save().catch((error) => error);
+
+    expect(error).toBeInstanceOf(ConcurrencyConflictError);
+    expect(error.message).toBe(
+      "Rows were changed or deleted since they were loaded: accounts 1",
+    );
+    expect(error.entities).toEqual([alice]);
+    // The whole save is rolled back
+    expect((await selectAccounts()).map((account) => account.balance)).toEqual(
+      [0, 50],
+    );
+    expect(alice.version).toBe(1);
+  });
+
+  it("should reject deletes of rows changed since they were loaded", async () => {
+    const alice = (await uow.accounts.find({ id: 1 }))!;
+
+    const other = createUow();
+    (await other.accounts.find({ id: 1 }))!.owner = "alice cooper";
+    await other.save();
+
+    uow.accounts.delete(alice);
+
+    await expect(uow.save()).rejects.toBeInstanceOf(ConcurrencyConflictError);
+    expect(await selectAccounts()).toHaveLength(2);
+  });
+
+  it("should reject updates of rows deleted since they were loaded", async () => {
+    const bob = (await uow.accounts.find({ id: 2 }))!;
+
+    const other = createUow();
+    other.accounts.delete((await other.accounts.find({ id: 2 }))!);
+    await other.save();
+
+    bob.balance = 0;
+
+    await expect(uow.save()).rejects.toBeInstanceOf(ConcurrencyConflictError);
+  });
+
+  it("should check the version of attached rows", async () => {
+    const alice = uow.accounts.attach({ id: 1, version: 1 });
+    alice.balance = 0;
+    await uow.save();
+    expect((await selectAccounts())[0]!.version).toBe(2);
+
+    const next = createUow();
+    next.accounts.attach({ id: 1, version: 1 }).balance = 10;
+    await expect(next.save()).rejects.toBeInstanceOf(
+      ConcurrencyConflictError,
+    );
+  });
+
+  it("should require the version of referenced rows", async () => {
+    uow.accounts.reference({ id: 1 }).balance = 0;
+
+    await expect(uow.save()).rejects.toThrow(
+      "Cannot save the 'accounts' entity 1 without its version column 'version'",
+    );
+  });
+
+  it("should keep checking versions after saving up to a checkpoint", async () => {
+    const alice = (await uow.accounts.find({ id: 1 }))!;
+    alice.balance = 80;
+    const checkpoint = uow.setCheckpoint();
+    alice.balance = 70;
+
+    await uow.save(checkpoint);
+    expect(alice.version).toBe(2);
+
+    await uow.save();
+    expect(alice.version).toBe(3);
+    expect((await selectAccounts())[0]).toMatchObject({
+      balance: 70,
+      version: 3,
+    });
+  });
+
+  it("should use date columns as versions", async () => {
+    const draft = (await uow.documents.find({ id: 1 }))!;
+    draft.title = "Final";
+
+    await uow.save();
+
+    expect(draft.updatedAt.getTime()).toBeGreaterThan(1000);
+    expect((await db.select().from(documents))[0]!.updatedAt).toEqual(
+      draft.updatedAt,
+    );
+
+    const stale = createUow();
+    stale.documents.attach({ id: 1, updatedAt: new Date(1000) }).title =
+      "Stale";
+    await expect(stale.save()).rejects.toBeInstanceOf(
+      ConcurrencyConflictError,
+    );
+  });
+
+  it("should reject upserts of versioned tables", () => {
+    expect(() =>
+      uow.accounts.upsert({ id: 1, owner: "alice", balance: 0, version: 1 }),
+    ).toThrow(
+      "Cannot create an entity of 'accounts' with onConflict because the table has a version column",
+    );
+  });
+
+  it("should reject bulk updates of versioned tables", async () => {
+    expect(() =>
+      uow.accounts.updateWhere((account, { eq }) => eq(account.id, 1), {
+        owner: "alice cooper",
+      }),
+    ).toThrow(
+      "Cannot update rows of 'accounts' with updateWhere() because the table has a version column",
+    );
+
+    // Another unit of work's later save of the row is not lost
+    const other = createUow();
+    const alice = (await other.accounts.find({ id: 1 }))!;
+    await uow.save();
+    alice.balance = 0;
+    await other.save();
+
+    expect((await selectAccounts())[0]).toEqual({
+      id: 1,
+      owner: "alice",
+      balance: 0,
+      version: 2,
+    });
+  });
+
+  it("should reject bulk deletes of versioned tables", async () => {
+    const alice = (await uow.accounts.find({ id: 1 }))!;
+
+    expect(() =>
+      uow.accounts.deleteWhere((account, { eq }) => eq(account.id, 1)),
+    ).toThrow(
+      "Cannot delete rows of 'accounts' with deleteWhere() because the table has a version column",
+    );
+
+    uow.accounts.delete(alice);
+    await uow.save();
+    expect(await selectAccounts()).toHaveLength(1);
+  });
+
+  it("should reject invalid version columns", () => {
+    expect(() =>
+      drizzow(db, { versionColumns: { accounts: "owner" } }),
+    ).toThrow(
+      "Version column 'owner' of table 'accounts' must hold numbers, bigints or dates",
+    );
+    expect(() =>
+      drizzow(db, { versionColumns: { accounts: "missing" as any } }),
+    ).toThrow("'missing' is not a column of table 'accounts'");
+  });
+});
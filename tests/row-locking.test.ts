@@ -0,0 +1,161 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { BunSQLiteDatabase, drizzle } from "drizzle-orm/bun-sqlite";
+import { Database } from "bun:sqlite";
+import { drizzow, type CreateUowReturnType } from "../src/bun-sqlite";
+import { integer, sqliteTable, text } from "drizzle-orm/sqlite-core";
+
+// Define test schema
+const accounts = sqliteTable("accounts", {
+  address: text().primaryKey(),
+  balance: integer().notNull(),
+});
+
+const schema = { accounts };
+
+describe("Row locking", () => {
+  let directory: string;
+  let sqlite: Database;
+  let other: Database;
+  let db: BunSQLiteDatabase<typeof schema>;
+  let uow: CreateUowReturnType<BunSQLiteDatabase<typeof schema>>;
+  let queries: string[];
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), "drizzow-locking-"));
+    sqlite = new Database(join(directory, "test.db"));
+    // A second connection to the same database
+    other = new Database(join(directory, "test.db"));
+    queries = [];
+    db = drizzle(sqlite, {
+      schema,
+      logger: { logQuery: (query) => queries.push(query) },
+    });
+
+    db.run(`
+      CREATE TABLE accounts (
+        address TEXT PRIMARY KEY,
+        balance INTEGER NOT NULL
+      )
+    `);
+    db.run(`INSERT INTO accounts VALUES ('0xa', 100), ('0xb', 50)`);
+
+    uow = drizzow(db);
+    queries = [];
+  });
+
+  afterEach(() => {
+    sqlite.close();
+    other.close();
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  function writeFromOtherConnection() {
+    other.run(`UPDATE accounts SET balance = 0 WHERE address = '0xb'`);
+  }
+
+  it("should read locked rows in a transaction committed by save()", async () => {
+    const from = (await uow.accounts.find(
+      { address: "0xa" },
+      { lock: "update" },
+    ))!;
+    const to = (await uow.accounts.find(
+      { address: "0xb" },
+      { lock: "update" },
+    ))!;
+    from.balance -= 10;
+    to.balance += 10;
+
+    await uow.save();
+
+    expect(queries[0]).toBe("begin immediate");
+    expect(queries.filter((query) => query.startsWith("begin"))).toHaveLength(
+      1,
+    );
+    expect(queries.at(-1)).toBe("commit");
+    expect(
+      other.query("SELECT balance FROM accounts ORDER BY address").values(),
+    ).toEqual([[90], [60]]);
+  });
+
+  it("should keep other connections from writing until saved", async () => {
+    const account = (await uow.accounts.find(
+      { address: "0xa" },
+      { lock: "update" },
+    ))!;
+    account.balance = 0;
+
+    expect(writeFromOtherConnection).toThrow("database is locked");
+
+    await uow.save();
+    writeFromOtherConnection();
+  });
+
+  it("should release the locks when nothing was changed", async () => {
+    await uow.accounts.find({ address: "0xa" }, { lock: "share" });
+
+    await uow.save();
+
+    expect(queries.at(-1)).toBe("commit");
+    writeFromOtherConnection();
+  });
+
+  it("should roll back and release the locks on clear()", async () => {
+    await uow.accounts.find({ address: "0xa" }, { lock: "update" });
+
+    uow.clear();
+    await uow.save();
+
+    expect(queries.at(-1)).toBe("rollback");
+    writeFromOtherConnection();
+  });
+
+  it("should roll back and release the locks when the save fails", async () => {
+    const account = (await uow.accounts.find(
+      { address: "0xa" },
+      { lock: "update" },
+    ))!;
+    account.balance = 0;
+    uow.accounts.create({ address: "0xb", balance: 0 });
+
+    await expect(uow.save()).rejects.toThrow();
+
+    writeFromOtherConnection();
+    expect(
+      other.query("SELECT balance FROM accounts WHERE address = '0xa'").get(),
+    ).toEqual({ balance: 100 });
+  });
+
+  it("should return locked entities already in the identity map", async () => {
+    const account = (await uow.accounts.find({ address: "0xa" }))!;
+    account.balance = 75;
+
+    const locked = await uow.accounts.find(
+      { address: ["0xa", "0xb"] },
+      { lock: "update" },
+    );
+
+    expect(locked[0]).toBe(account);
+    expect(account.balance).toBe(75);
+    expect(locked.map((entity) => entity.address)).toEqual(["0xa", "0xb"]);
+  });
+
+  it("should return entities created in the unit of work", async () => {
+    const created = uow.accounts.create({ address: "0xc", balance: 0 });
+
+    expect(
+      await uow.accounts.find({ address: "0xc" }, { lock: "update" }),
+    ).toBe(created);
+  });
+
+  it("should reject conflicting lock options", async () => {
+    await expect(
+      uow.accounts.find(
+        { address: "0xa" },
+        { lock: { mode: "update", skipLocked: true, noWait: true } },
+      ),
+    ).rejects.toThrow("A lock cannot use both skipLocked and noWait");
+  });
+});
@@ -0,0 +1,169 @@
+import { describe, it, expect, beforeEach } from "bun:test";
+import { BunSQLiteDatabase, drizzle } from "drizzle-orm/bun-sqlite";
+import { Database } from "bun:sqlite";
+import { drizzow, type CreateUowReturnType } from "../src/bun-sqlite";
+import {
+  CheckpointNotFoundError,
+  CheckpointOrderError,
+  DrizzowError,
+  ForeignKeyError,
+  NotNullError,
+  SaveError,
+  UniqueConstraintError,
+} from "../src";
+import { integer, sqliteTable, text } from "drizzle-orm/sqlite-core";
+
+// Define test schema
+const users = sqliteTable("users", {
+  id: integer().primaryKey(),
+  email: text().notNull().unique(),
+});
+
+const posts = sqliteTable("posts", {
+  id: integer().primaryKey(),
+  authorId: integer()
+    .notNull()
+    .references(() => users.id),
+});
+
+const schema = { users, posts };
+
+describe("Save and rollback errors", () => {
+  let db: BunSQLiteDatabase<typeof schema>;
+  let uow: CreateUowReturnType<BunSQLiteDatabase<typeof schema>>;
+
+  beforeEach(async () => {
+    const sqlite = new Database(":memory:");
+    db = drizzle(sqlite, { schema });
+
+    db.run(`PRAGMA foreign_keys = ON`);
+    db.run(`
+      CREATE TABLE users (
+        id INTEGER PRIMARY KEY,
+        email TEXT NOT NULL UNIQUE
+      )
+    `);
+    db.run(`
+      CREATE TABLE posts (
+        id INTEGER PRIMARY KEY,
+        authorId INTEGER NOT NULL REFERENCES users(id)
+      )
+    `);
+
+    await db.insert(users).values({ id: 1, email: "alice@example.com" });
+    await db.insert(posts).values({ id: 1, authorId: 1 });
+
+    uow = drizzow(db);
+  });
+
+  async function saveError(): Promise<any> {
+    return uow.save().then(
+      () => expect.unreachable("save() should fail"),
+      (error) => error,
+    );
+  }
+
+  describe("save()", () => {
+    it("should throw unique violations with the failing change", async () => {
+      uow.users.create({ id: 2, email: "alice@example.com" });
+
+      const error = await saveError();
+
+      expect(error).toBeInstanceOf(UniqueConstraintError);
+      expect(error).toBeInstanceOf(SaveError);
+      expect(error).toBeInstanceOf(DrizzowError);
+      expect(error.message).toStartWith("Failed to save changes:");
+      expect(error.tableName).toBe("users");
+      expect(error.primaryKey).toBe(2);
+      expect(error.changeSet.entity).toEqual({
+        id: 2,
+        email: "alice@example.com",
+      });
+    });
+
+    it("should keep the driver's error as the cause", async () => {
+      uow.users.create({ id: 1, email: "bob@example.com" });
+
+      const error = await saveError();
+
+      expect(error).toBeInstanceOf(UniqueConstraintError);
+      expect(error.cause.code).toBe("SQLITE_CONSTRAINT_PRIMARYKEY");
+    });
+
+    it("should throw foreign key violations", async () => {
+      uow.posts.create({ id: 2, authorId: 99 });
+
+      const error = await saveError();
+
+      expect(error).toBeInstanceOf(ForeignKeyError);
+      expect(error.tableName).toBe("posts");
+    });
+
+    it("should throw foreign key violations of deleted parents", async () => {
+      uow.users.delete(uow.users.reference({ id: 1 }));
+
+      const error = await saveError();
+
+      expect(error).toBeInstanceOf(ForeignKeyError);
+      expect(error.primaryKey).toBe(1);
+    });
+
+    it("should throw NOT NULL violations", async () => {
+      const alice = (await uow.users.find({ id: 1 }))!;
+      alice.email = null as any;
+
+      const error = await saveError();
+
+      expect(error).toBeInstanceOf(NotNullError);
+      expect(error.changeSet.entity).toBe(alice);
+    });
+
+    it("should only name the table of a statement writing several entities", async () => {
+      uow.users.create({ id: 2, email: "bob@example.com" });
+      uow.users.create({ id: 3, email: "bob@example.com" });
+
+      const error = await saveError();
+
+      expect(error).toBeInstanceOf(UniqueConstraintError);
+      expect(error.tableName).toBe("users");
+      expect(error.changeSet).toBeUndefined();
+      expect(error.primaryKey).toBeUndefined();
+    });
+  });
+
+  describe("checkpoints", () => {
+    it("should throw when saving a missing checkpoint", async () => {
+      const error = await uow.save(99).catch((error) => error);
+
+      expect(error).toBeInstanceOf(CheckpointNotFoundError);
+      expect(error.checkpoint).toBe(99);
+      expect(error.message).toBe("Checkpoint 99 not found");
+    });
+
+    it("should throw when saving past a rolled back checkpoint", async () => {
+      const first = uow.setCheckpoint();
+      const second = uow.setCheckpoint();
+      uow.rollback(first);
+
+      const error = await uow.save(second).catch((error) => error);
+
+      expect(error).toBeInstanceOf(CheckpointOrderError);
+      expect(error.checkpoint).toBe(second);
+    });
+
+    it("should report why a rollback failed", async () => {
+      const first = uow.setCheckpoint();
+      uow.users.create({ id: 2, email: "bob@example.com" });
+      const second = uow.setCheckpoint();
+      await uow.save(second);
+
+      const missing = uow.rollback(99);
+      const saved = uow.rollback(first);
+
+      expect(missing.cause).toBeInstanceOf(CheckpointNotFoundError);
+      expect(missing.error).toBe(missing.cause!.message);
+      expect(saved.cause).toBeInstanceOf(CheckpointOrderError);
+      expect(uow.rollback(uow.setCheckpoint()).cause).toBeUndefined();
+    });
+  });
+});
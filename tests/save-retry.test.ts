@@ -0,0 +1,140 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { BunSQLiteDatabase, drizzle } from "drizzle-orm/bun-sqlite";
+import { Database } from "bun:sqlite";
+import { drizzow, type CreateUowReturnType } from "../src/bun-sqlite";
+import { asc } from "drizzle-orm";
+import { integer, sqliteTable, text } from "drizzle-orm/sqlite-core";
+
+// Define test schema
+const users = sqliteTable("users", {
+  id: integer().primaryKey({ autoIncrement: true }),
+  username: text().notNull().unique(),
+});
+
+const schema = { users };
+
+describe("Retrying save()", () => {
+  let directory: string;
+  let sqlite: Database;
+  let other: Database;
+  let db: BunSQLiteDatabase<typeof schema>;
+  let uow: CreateUowReturnType<BunSQLiteDatabase<typeof schema>>;
+
+  beforeEach(async () => {
+    directory = mkdtempSync(join(tmpdir(), "drizzow-retry-"));
+    sqlite = new Database(join(directory, "test.db"));
+    // A second connection to the same database, holding its write lock
+    other = new Database(join(directory, "test.db"));
+    db = drizzle(sqlite, { schema });
+
+    db.run(`
+      CREATE TABLE users (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        username TEXT NOT NULL UNIQUE
+      )
+    `);
+    await db.insert(users).values({ username: "alice" });
+
+    uow = drizzow(db);
+    other.run("BEGIN IMMEDIATE");
+  });
+
+  afterEach(() => {
+    sqlite.close();
+    other.close();
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  function releaseLock() {
+    if (other.inTransaction) other.run("ROLLBACK");
+  }
+
+  function findCode(error: any): string | undefined {
+    for (let current = error; current; current = current.cause) {
+      if (typeof current.code === "string") return current.code;
+    }
+  }
+
+  it("should retry a save that found the database busy", async () => {
+    const alice = (await uow.users.find({ id: 1 }))!;
+    alice.username = "alice cooper";
+    const bob = uow.users.create({ username: "bob" });
+    const delays: number[] = [];
+
+    await uow.save({
+      retry: {
+        attempts: 3,
+        backoff: (attempt) => {
+          delays.push(attempt);
+          releaseLock();
+          return 1;
+        },
+      },
+    });
+
+    expect(delays).toEqual([1]);
+    expect(bob.id).toBe(2);
+    expect(await db.select().from(users).orderBy(asc(users.id))).toEqual([
+      { id: 1, username: "alice cooper" },
+      { id: 2, username: "bob" },
+    ]);
+  });
+
+  it("should keep the changes tracked when every attempt fails", async () => {
+    uow.users.create({ username: "bob" });
+
+    const error = await uow
+      .save({ retry: { attempts: 2, backoff: 1 } })
+      .catch((error) => error);
+
+    expect(error.message).toStartWith("Failed to save changes");
+    expect(findCode(error)).toBe("SQLITE_BUSY");
+    expect(uow.getStats().pendingChanges).toBe(1);
+
+    releaseLock();
+    await uow.save();
+    expect(await db.select().from(users)).toHaveLength(2);
+  });
+
+  it("should not retry other errors", async () => {
+    releaseLock();
+    uow.users.create({ username: "alice" });
+    let retries = 0;
+
+    const error = await uow
+      .save({
+        retry: {
+          attempts: 3,
+          backoff: () => {
+            retries++;
+            return 0;
+          },
+        },
+      })
+      .catch((error) => error);
+
+    expect(retries).toBe(0);
+    expect(findCode(error)).toBe("SQLITE_CONSTRAINT_UNIQUE");
+  });
+
+  it("should retry saves up to a checkpoint", async () => {
+    uow.users.create({ username: "bob" });
+    const checkpoint = uow.setCheckpoint();
+    uow.users.create({ username: "carol" });
+
+    await uow.save(checkpoint, {
+      retry: {
+        attempts: 2,
+        backoff: () => {
+          releaseLock();
+          return 0;
+        },
+      },
+    });
+
+    expect(await db.select().from(users)).toHaveLength(2);
+  });
+});
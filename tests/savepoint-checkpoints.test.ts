@@ -0,0 +1,211 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { BunSQLiteDatabase, drizzle } from "drizzle-orm/bun-sqlite";
+import { Database } from "bun:sqlite";
+import { drizzow, type CreateUowReturnType } from "../src/bun-sqlite";
+import { CheckpointOrderError, UniqueConstraintError } from "../src";
+import { integer, sqliteTable, text } from "drizzle-orm/sqlite-core";
+
+// Define test schema
+const accounts = sqliteTable("accounts", {
+  address: text().primaryKey(),
+  balance: integer().notNull(),
+});
+
+const transfers = sqliteTable("transfers", {
+  id: integer().primaryKey({ autoIncrement: true }),
+  amount: integer().notNull(),
+});
+
+const schema = { accounts, transfers };
+
+describe("Savepoint checkpoints", () => {
+  let directory: string;
+  let sqlite: Database;
+  let other: Database;
+  let db: BunSQLiteDatabase<typeof schema>;
+  let uow: CreateUowReturnType<BunSQLiteDatabase<typeof schema>>;
+  let queries: string[];
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), "drizzow-savepoint-"));
+    sqlite = new Database(join(directory, "test.db"));
+    // A second connection, which only sees committed rows
+    other = new Database(join(directory, "test.db"));
+    queries = [];
+    db = drizzle(sqlite, {
+      schema,
+      logger: { logQuery: (query) => queries.push(query) },
+    });
+
+    db.run(`
+      CREATE TABLE accounts (
+        address TEXT PRIMARY KEY,
+        balance INTEGER NOT NULL
+      )
+    `);
+    db.run(`
+      CREATE TABLE transfers (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        amount INTEGER NOT NULL
+      )
+    `);
+    db.run(`INSERT INTO accounts VALUES ('0xa', 100), ('0xb', 50)`);
+
+    uow = drizzow(db);
+    queries = [];
+  });
+
+  afterEach(() => {
+    sqlite.close();
+    other.close();
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  function committedBalances() {
+    return other
+      .query("SELECT balance FROM accounts ORDER BY address")
+      .values()
+      .flat();
+  }
+
+  function balances() {
+    return sqlite
+      .query("SELECT balance FROM accounts ORDER BY address")
+      .values()
+      .flat();
+  }
+
+  it("should write pending changes and set a savepoint", async () => {
+    const from = (await uow.accounts.find({ address: "0xa" }))!;
+    from.balance -= 10;
+
+    await uow.setCheckpoint({ savepoint: true });
+
+    expect(queries.slice(1)).toEqual([
+      "begin immediate",
+      'update "accounts" set "balance" = ? where "accounts"."address" = ?',
+      'savepoint "drizzow_1"',
+    ]);
+    expect(balances()).toEqual([90, 50]);
+    expect(committedBalances()).toEqual([100, 50]);
+
+    await uow.save();
+    expect(queries.at(-1)).toBe("commit");
+    expect(committedBalances()).toEqual([90, 50]);
+  });
+
+  it("should only write changes made after the savepoint on save", async () => {
+    const from = (await uow.accounts.find({ address: "0xa" }))!;
+    from.balance -= 10;
+    await uow.setCheckpoint({ savepoint: true });
+    queries = [];
+
+    const to = (await uow.accounts.find({ address: "0xb" }))!;
+    to.balance += 10;
+    await uow.save();
+
+    expect(queries).toEqual([
+      'select "address", "balance" from "accounts" "accounts" where "accounts"."address" in (?)',
+      'update "accounts" set "balance" = ? where "accounts"."address" = ?',
+      "commit",
+    ]);
+    expect(committedBalances()).toEqual([90, 60]);
+  });
+
+  it("should roll the database and the entities back to a savepoint", async () => {
+    const from = (await uow.accounts.find({ address: "0xa" }))!;
+    from.balance -= 10;
+    const checkpoint = await uow.setCheckpoint({ savepoint: true });
+    from.balance -= 20;
+    uow.transfers.create({ amount: 20 });
+    await uow.setCheckpoint({ savepoint: true });
+    expect(balances()).toEqual([70, 50]);
+
+    const result = await uow.rollback(checkpoint);
+
+    expect(result.error).toBeNull();
+    expect(queries.at(-1)).toBe('rollback to savepoint "drizzow_1"');
+    expect(from.balance).toBe(90);
+    expect(balances()).toEqual([90, 50]);
+    expect(await db.select().from(transfers)).toHaveLength(0);
+
+    from.balance -= 5;
+    await uow.save();
+    expect(committedBalances()).toEqual([85, 50]);
+  });
+
+  it("should assign generated keys when writing at a savepoint", async () => {
+    const transfer = uow.transfers.create({ amount: 20 });
+
+    await uow.setCheckpoint({ savepoint: true });
+    expect(transfer.id).toBe(1);
+
+    transfer.amount = 25;
+    await uow.save();
+    expect(await db.select().from(transfers)).toEqual([{ id: 1, amount: 25 }]);
+  });
+
+  it("should roll a failed save back to the last savepoint", async () => {
+    const from = (await uow.accounts.find({ address: "0xa" }))!;
+    from.balance -= 10;
+    const checkpoint = await uow.setCheckpoint({ savepoint: true });
+    uow.accounts.create({ address: "0xb", balance: 0 });
+
+    await expect(uow.save()).rejects.toBeInstanceOf(UniqueConstraintError);
+    expect(queries.at(-1)).toBe('rollback to savepoint "drizzow_1"');
+    expect(balances()).toEqual([90, 50]);
+
+    await uow.rollback(checkpoint);
+    await uow.save();
+    expect(committedBalances()).toEqual([90, 50]);
+  });
+
+  it("should not revert to or save checkpoints set before a savepoint", async () => {
+    const from = (await uow.accounts.find({ address: "0xa" }))!;
+    const checkpoint = uow.setCheckpoint();
+    from.balance -= 10;
+    const savepoint = await uow.setCheckpoint({ savepoint: true });
+
+    const result = uow.rollback(checkpoint);
+
+    expect(result.cause).toBeInstanceOf(CheckpointOrderError);
+    expect(result.error).toBe(
+      `Cannot revert to checkpoint ${checkpoint} because it is before savepoint checkpoint ${savepoint}`,
+    );
+    expect(from.balance).toBe(90);
+    await expect(uow.save(checkpoint)).rejects.toBeInstanceOf(
+      CheckpointOrderError,
+    );
+  });
+
+  it("should roll back to any checkpoint with rollbackToSavepoint()", async () => {
+    const from = (await uow.accounts.find({ address: "0xa" }))!;
+    const savepoint: number = await uow.setCheckpoint({ savepoint: true });
+    from.balance -= 10;
+    const checkpoint = uow.setCheckpoint();
+    from.balance -= 20;
+
+    expect((await uow.rollbackToSavepoint(checkpoint)).error).toBeNull();
+    expect(from.balance).toBe(90);
+    expect(queries).not.toContain('rollback to savepoint "drizzow_1"');
+
+    expect((await uow.rollbackToSavepoint(savepoint)).error).toBeNull();
+    expect(queries.at(-1)).toBe('rollback to savepoint "drizzow_1"');
+    expect(from.balance).toBe(100);
+  });
+
+  it("should not roll back to a savepoint after its transaction ended", async () => {
+    const from = (await uow.accounts.find({ address: "0xa" }))!;
+    from.balance -= 10;
+    const checkpoint = await uow.setCheckpoint({ savepoint: true });
+    await uow.save(checkpoint);
+
+    const result = await uow.rollback(checkpoint);
+
+    expect(result.cause).toBeInstanceOf(CheckpointOrderError);
+    expect(committedBalances()).toEqual([90, 50]);
+  });
+});
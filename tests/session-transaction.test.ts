@@ -0,0 +1,142 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { BunSQLiteDatabase, drizzle } from "drizzle-orm/bun-sqlite";
+import { Database } from "bun:sqlite";
+import { drizzow } from "../src/bun-sqlite";
+import { integer, sqliteTable, text } from "drizzle-orm/sqlite-core";
+
+// Define test schema
+const accounts = sqliteTable("accounts", {
+  address: text().primaryKey(),
+  balance: integer().notNull(),
+});
+
+const schema = { accounts };
+
+describe("Session transactions", () => {
+  let directory: string;
+  let sqlite: Database;
+  let other: Database;
+  let db: BunSQLiteDatabase<typeof schema>;
+  let queries: string[];
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), "drizzow-session-"));
+    sqlite = new Database(join(directory, "test.db"));
+    // A second connection to the same database
+    other = new Database(join(directory, "test.db"));
+    queries = [];
+    db = drizzle(sqlite, {
+      schema,
+      logger: { logQuery: (query) => queries.push(query) },
+    });
+
+    db.run(`
+      CREATE TABLE accounts (
+        address TEXT PRIMARY KEY,
+        balance INTEGER NOT NULL
+      )
+    `);
+    db.run(`INSERT INTO accounts VALUES ('0xa', 100), ('0xb', 50)`);
+    queries = [];
+  });
+
+  afterEach(() => {
+    sqlite.close();
+    other.close();
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  function writeFromOtherConnection() {
+    other.run(`UPDATE accounts SET balance = 0 WHERE address = '0xb'`);
+  }
+
+  it("should run every read and the save in one transaction", async () => {
+    const uow = drizzow(db, { transaction: "session" });
+
+    const from = (await uow.accounts.find({ address: "0xa" }))!;
+    const [to] = await uow.accounts.findMany({
+      where: (account, { eq }) => eq(account.address, "0xb"),
+    });
+    from.balance -= 10;
+    to!.balance += 10;
+    await uow.save();
+
+    expect(queries[0]).toBe("begin immediate");
+    expect(queries.filter((query) => query.startsWith("begin"))).toHaveLength(
+      1,
+    );
+    expect(queries.at(-1)).toBe("commit");
+    expect(
+      other.query("SELECT balance FROM accounts ORDER BY address").values(),
+    ).toEqual([[90], [60]]);
+  });
+
+  it("should open a new transaction on the first read after a save", async () => {
+    const uow = drizzow(db, { transaction: "session" });
+    await uow.accounts.find({ address: "0xa" });
+    await uow.save();
+    writeFromOtherConnection();
+
+    queries = [];
+    await uow.accounts.find({ address: "0xb" });
+
+    expect(queries[0]).toBe("begin immediate");
+    await uow.dispose();
+  });
+
+  it("should not open a transaction for reads by default", async () => {
+    const uow = drizzow(db);
+
+    await uow.accounts.find({ address: "0xa" });
+
+    expect(queries).toHaveLength(1);
+    writeFromOtherConnection();
+  });
+
+  it("should roll back the transaction on dispose()", async () => {
+    const uow = drizzow(db, { transaction: "session" });
+    const account = (await uow.accounts.find({ address: "0xa" }))!;
+    account.balance = 0;
+
+    await uow.dispose();
+
+    expect(queries.at(-1)).toBe("rollback");
+    expect(uow.getStats().trackedEntities).toBe(0);
+    writeFromOtherConnection();
+  });
+
+  it("should be disposed by await using", async () => {
+    {
+      await using uow = drizzow(db, { transaction: "session" });
+      await uow.accounts.find({ address: "0xa" });
+    }
+
+    expect(queries.at(-1)).toBe("rollback");
+    writeFromOtherConnection();
+  });
+
+  it("should open a transaction with begin()", async () => {
+    const uow = drizzow(db);
+    await uow.begin();
+
+    const account = (await uow.accounts.find({ address: "0xa" }))!;
+    account.balance = 0;
+    await uow.save();
+
+    expect(queries[0]).toBe("begin immediate");
+    expect(queries.at(-1)).toBe("commit");
+  });
+
+  it("should reject begin() while a transaction is open", async () => {
+    const uow = drizzow(db, { transaction: "session" });
+    await uow.accounts.find({ address: "0xa" });
+
+    await expect(uow.begin()).rejects.toThrow(
+      "A session transaction is already open",
+    );
+    await uow.dispose();
+  });
+});
@@ -0,0 +1,199 @@
+import { describe, it, expect, beforeEach } from "bun:test";
+import { BunSQLiteDatabase, drizzle } from "drizzle-orm/bun-sqlite";
+import { Database } from "bun:sqlite";
+import { drizzow, type CreateUowReturnType } from "../src/bun-sqlite";
+import { asc } from "drizzle-orm";
+import { integer, sqliteTable, text } from "drizzle-orm/sqlite-core";
+
+// Define test schema
+const balances = sqliteTable("balances", {
+  account: text().primaryKey(),
+  amount: integer().notNull(),
+  label: text(),
+});
+
+const schema = { balances };
+
+describe("Upserts", () => {
+  let db: BunSQLiteDatabase<typeof schema>;
+  let uow: CreateUowReturnType<BunSQLiteDatabase<typeof schema>>;
+  let queries: string[];
+
+  beforeEach(async () => {
+    const sqlite = new Database(":memory:");
+    queries = [];
+    db = drizzle(sqlite, {
+      schema,
+      logger: { logQuery: (query) => queries.push(query) },
+    });
+
+    db.run(`
+      CREATE TABLE balances (
+        account TEXT PRIMARY KEY,
+        amount INTEGER NOT NULL,
+        label TEXT
+      )
+    `);
+
+    await db
+      .insert(balances)
+      .values({ account: "0xa", amount: 10, label: "alice" });
+
+    uow = drizzow(db);
+    queries = [];
+  });
+
+  function statements() {
+    return queries.filter((q) => q !== "begin" && q !== "commit");
+  }
+
+  describe("upsert()", () => {
+    it("should overwrite an existing row without reading it", async () => {
+      const balance = uow.balances.upsert({ account: "0xa", amount: 25 });
+
+      await uow.save();
+
+      // A single statement and no read
+      expect(statements()).toHaveLength(1);
+      expect(statements()[0]).toContain("on conflict");
+      expect(balance.amount).toBe(25);
+      expect(await db.select().from(balances)).toEqual([
+        // Columns left out are not overwritten
+        { account: "0xa", amount: 25, label: "alice" },
+      ]);
+    });
+
+    it("should insert a missing row", async () => {
+      uow.balances.upsert({ account: "0xb", amount: 5 });
+
+      await uow.save();
+
+      expect(
+        await db.select().from(balances).orderBy(asc(balances.account)),
+      ).toEqual([
+        { account: "0xa", amount: 10, label: "alice" },
+        { account: "0xb", amount: 5, label: null },
+      ]);
+    });
+
+    it("should update the entity already in the identity map", async () => {
+      const balance = (await uow.balances.find({ account: "0xa" }))!;
+
+      const upserted = uow.balances.upsert({ account: "0xa", amount: 30 });
+
+      expect(upserted).toBe(balance);
+      expect(balance.amount).toBe(30);
+      await uow.save();
+      expect(statements().at(-1)).toStartWith('update "balances"');
+      expect((await db.select().from(balances))[0]!.amount).toBe(30);
+    });
+
+    it("should require the primary key", () => {
+      expect(() => uow.balances.upsert({ amount: 1 } as any)).toThrow(
+        "Missing primary key column(s) account for table 'balances'",
+      );
+    });
+  });
+
+  describe("create() with onConflict", () => {
+    it("should skip conflicting rows with 'ignore'", async () => {
+      uow.balances.create(
+        { account: "0xa", amount: 99 },
+        { onConflict: "ignore" },
+      );
+      uow.balances.create(
+        { account: "0xb", amount: 5 },
+        { onConflict: "ignore" },
+      );
+
+      await uow.save();
+
+      expect(statements()).toHaveLength(1);
+      expect(
+        await db.select().from(balances).orderBy(asc(balances.account)),
+      ).toEqual([
+        { account: "0xa", amount: 10, label: "alice" },
+        { account: "0xb", amount: 5, label: null },
+      ]);
+    });
+
+    it("should write rows setting the same columns in one statement", async () => {
+      for (let i = 0; i < 10; i++) {
+        uow.balances.upsert({ account: `0x${i}`, amount: i });
+      }
+      uow.balances.upsert({ account: "0xa", amount: 1, label: "alice a." });
+
+      await uow.save();
+
+      expect(statements()).toHaveLength(2);
+      expect(await db.select().from(balances)).toHaveLength(11);
+    });
+
+    it("should reject entities without a primary key", () => {
+      expect(() =>
+        uow.balances.create({ amount: 1 } as any, { onConflict: "update" }),
+      ).toThrow(
+        "Cannot create an entity of 'balances' with onConflict without its primary key",
+      );
+    });
+
+    it("should keep the conflict action when saving up to a checkpoint", async () => {
+      uow.balances.upsert({ account: "0xa", amount: 25 });
+      const checkpoint = uow.setCheckpoint();
+      uow.balances.upsert({ account: "0xb", amount: 5 });
+
+      await uow.save(checkpoint);
+
+      expect(await db.select().from(balances)).toEqual([
+        { account: "0xa", amount: 25, label: "alice" },
+      ]);
+    });
+  });
+
+  describe("findOrCreate()", () => {
+    it("should return the entity from the identity map", async () => {
+      const balance = (await uow.balances.find({ account: "0xa" }))!;
+      queries = [];
+
+      const found = await uow.balances.findOrCreate({
+        account: "0xa",
+        amount: 0,
+      });
+
+      expect(found).toBe(balance);
+      expect(found.amount).toBe(10);
+      expect(queries).toHaveLength(0);
+    });
+
+    it("should load the entity from the database", async () => {
+      const found = await uow.balances.findOrCreate({
+        account: "0xa",
+        amount: 0,
+      });
+
+      expect(found.amount).toBe(10);
+      found.amount += 1;
+      await uow.save();
+      expect((await db.select().from(balances))[0]!.amount).toBe(11);
+    });
+
+    it("should create the entity when it does not exist", async () => {
+      const created = await uow.balances.findOrCreate({
+        account: "0xb",
+        amount: 0,
+      });
+      created.amount += 5;
+
+      expect(
+        await uow.balances.findOrCreate({ account: "0xb", amount: 0 }),
+      ).toBe(created);
+      await uow.save();
+      expect(
+        await db.select().from(balances).orderBy(asc(balances.account)),
+      ).toEqual([
+        { account: "0xa", amount: 10, label: "alice" },
+        { account: "0xb", amount: 5, label: null },
+      ]);
+    });
+  });
+});